@@ -1,75 +1,247 @@
-import { useState, useRef, useEffect } from 'react';
-import { Upload, Settings, Trash2, Plus } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Upload, Settings, Trash2, Plus, AlertTriangle, Loader2, Banknote, FileSpreadsheet, Crop, Type, LayoutGrid, GripVertical } from 'lucide-react';
 import ImageMerger from './components/ImageMerger';
 import PrintLayout from './components/PrintLayout';
-import SettingsModal, { SavedSettings, SETTINGS_KEY } from './components/SettingsModal';
-
-interface QRISImage {
-  id: string;
-  file: File;
-  preview: string;
-}
+import SettingsModal from './components/SettingsModal';
+import AmountModal from './components/AmountModal';
+import BatchImportModal from './components/BatchImportModal';
+import CropModal from './components/CropModal';
+import FieldValuesModal from './components/FieldValuesModal';
+import PageSetupPanel from './components/PageSetupPanel';
+import { AreaConfig } from './components/AreaSelector';
+import { MergedCard, QRISImage } from './types';
+import { analyzeQrisImage, createPreview, isMergeable, revokeQrisImage } from './lib/qrisImage';
+import { DynamicAmount, formatRupiah } from './lib/qris';
+import { getGridCells } from './lib/pageSetup';
+import { PreparedUpload, getDroppedFiles, prepareUploadFiles } from './lib/uploadFiles';
+import { DEFAULT_PRINT_PREFERENCES, PrintPreferences, TemplateLibrary, getActiveTemplate, isTemplateReady, loadLibrary, saveLibrary } from './lib/templates';
 
 function App() {
   const [qrisImages, setQrisImages] = useState<QRISImage[]>([]);
-  const [mergedImages, setMergedImages] = useState<string[]>([]);
-  const [imagesPerPage, setImagesPerPage] = useState<number>(2);
-  const [savedSettings, setSavedSettings] = useState<SavedSettings | null>(null);
+  const [mergedImages, setMergedImages] = useState<MergedCard[]>([]);
+  const [library, setLibrary] = useState<TemplateLibrary>({ templates: [], activeId: null });
   const [showSettings, setShowSettings] = useState(false);
+  const [showPageSetup, setShowPageSetup] = useState(false);
+  const [includeFlagged, setIncludeFlagged] = useState(false);
+  const [regenerateQr, setRegenerateQr] = useState(false);
+  const [amountEditId, setAmountEditId] = useState<string | null>(null);
+  const [showBatchImport, setShowBatchImport] = useState(false);
+  const [cropEditId, setCropEditId] = useState<string | null>(null);
+  const [fieldsEditId, setFieldsEditId] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const [isPreparingUpload, setIsPreparingUpload] = useState(false);
   const qrisInputRef = useRef<HTMLInputElement>(null);
 
-  // Load saved settings from localStorage on mount
+  // Load saved templates (metadata from localStorage, frames from IndexedDB) on mount
   useEffect(() => {
-    const saved = localStorage.getItem(SETTINGS_KEY);
-    if (saved) {
+    loadLibrary()
+      .then(setLibrary)
+      .catch(error => {
+        console.error('Error loading templates:', error);
+        alert('Gagal memuat template tersimpan. Penyimpanan browser mungkin diblokir.');
+      });
+  }, []);
+
+  // Shared by the file picker, drag and drop and paste; PDFs arrive here as one image per page
+  const addQrisFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsPreparingUpload(true);
+    let prepared: PreparedUpload;
+    try {
+      prepared = await prepareUploadFiles(files);
+    } catch (error) {
+      console.error('Error preparing uploads:', error);
+      alert('Gagal membaca file yang dipilih.');
+      return;
+    } finally {
+      setIsPreparingUpload(false);
+    }
+    const { images, rejected } = prepared;
+    if (rejected.length > 0) {
+      alert(`${rejected.length} file tidak ditambahkan:\n${rejected.join('\n')}`);
+    }
+
+    const newQrisImages: QRISImage[] = images.map(file => {
+      const url = URL.createObjectURL(file);
+      return {
+        id: Math.random().toString(36).substr(2, 9),
+        file,
+        source: url,
+        preview: url,
+        status: 'decoding',
+      };
+    });
+    setQrisImages(prev => [...prev, ...newQrisImages]);
+
+    // Decode each QR in the background, fill in the merchant details and crop to the code
+    newQrisImages.forEach(async (img) => {
       try {
-        const parsed = JSON.parse(saved) as SavedSettings;
-        if (parsed.frameImage && parsed.areaConfig) {
-          setSavedSettings(parsed);
-        }
-      } catch {
-        // ignore
+        const analysis = await analyzeQrisImage(img.source);
+        const preview = await createPreview(img.source, analysis.crop);
+        setQrisImages(prev => prev.map(item => item.id === img.id ? { ...item, ...analysis, preview } : item));
+      } catch (error) {
+        // Never leave an upload spinning on "decoding"
+        console.error('Error analyzing QRIS image:', error);
+        setQrisImages(prev => prev.map(item => item.id === img.id ? { ...item, status: 'no-qr', error: 'Gambar tidak dapat diproses' } : item));
       }
+    });
+  };
+
+  const handleQrisUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addQrisFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handleQrisDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDropTarget(false);
+    let files: File[];
+    try {
+      files = await getDroppedFiles(e.dataTransfer);
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
+      alert('Gagal membaca file atau folder yang di-drop.');
+      return;
     }
+    addQrisFiles(files);
+  };
+
+  const addQrisFilesRef = useRef(addQrisFiles);
+  useEffect(() => {
+    addQrisFilesRef.current = addQrisFiles;
+  });
+
+  // Screenshots copied from chat apps; pasting text into a field keeps working as usual
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.length === 0) return;
+      e.preventDefault();
+      addQrisFilesRef.current(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
   }, []);
 
-  const handleQrisUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    const newQrisImages: QRISImage[] = files.map(file => ({
-      id: Math.random().toString(36).substr(2, 9),
-      file,
-      preview: URL.createObjectURL(file)
-    }));
-    setQrisImages(prev => [...prev, ...newQrisImages]);
+  const handleCropSave = async (id: string, crop: AreaConfig | undefined) => {
+    setCropEditId(null);
+    const image = qrisImages.find(img => img.id === id);
+    if (!image) return;
+
+    try {
+      const preview = await createPreview(image.source, crop);
+      // A manual crop can rescue a code the full screenshot could not be decoded from
+      const analysis = image.status === 'no-qr' ? await analyzeQrisImage(preview) : {};
+      setQrisImages(prev => prev.map(item => {
+        if (item.id !== id) return item;
+        if (item.preview !== item.source) URL.revokeObjectURL(item.preview);
+        return { ...item, ...analysis, crop, preview };
+      }));
+    } catch (error) {
+      console.error('Error cropping QRIS image:', error);
+      alert('Gagal memotong gambar.');
+    }
+  };
+
+  const handleBatchImport = (images: QRISImage[]) => {
+    setQrisImages(prev => [...prev, ...images]);
   };
 
   const removeQrisImage = (id: string) => {
     setQrisImages(prev => {
       const image = prev.find(img => img.id === id);
       if (image) {
-        URL.revokeObjectURL(image.preview);
+        revokeQrisImage(image);
       }
       return prev.filter(img => img.id !== id);
     });
   };
 
-  const handleMergedImagesReady = (images: string[]) => {
+  const setDynamicAmount = (id: string, dynamicAmount: DynamicAmount | undefined) => {
+    setQrisImages(prev => prev.map(img => img.id === id ? { ...img, dynamicAmount } : img));
+    setAmountEditId(null);
+  };
+
+  const setFieldValues = (id: string, fieldValues: Record<string, string>) => {
+    setQrisImages(prev => prev.map(img => img.id === id ? { ...img, fieldValues } : img));
+    setFieldsEditId(null);
+  };
+
+  const setCopies = (id: string, copies: number) => {
+    setQrisImages(prev => prev.map(img => img.id === id ? { ...img, copies: Math.max(1, Math.min(999, copies)) } : img));
+  };
+
+  // Dropping onto another upload puts the dragged one in its place; merge and print follow the list order
+  const moveQrisImage = (fromId: string, toId: string) => {
+    if (fromId === toId) return;
+    setQrisImages(prev => {
+      const from = prev.findIndex(img => img.id === fromId);
+      const to = prev.findIndex(img => img.id === toId);
+      if (from < 0 || to < 0) return prev;
+      const next = [...prev];
+      next.splice(to, 0, ...next.splice(from, 1));
+      return next;
+    });
+  };
+
+  const amountEditImage = qrisImages.find(img => img.id === amountEditId);
+  const cropEditImage = qrisImages.find(img => img.id === cropEditId);
+  const fieldsEditImage = qrisImages.find(img => img.id === fieldsEditId);
+  const activeTemplate = getActiveTemplate(library);
+  const textFields = activeTemplate?.textFields ?? [];
+  const printPrefs = activeTemplate?.print ?? DEFAULT_PRINT_PREFERENCES;
+  // Uploads that make one full sheet: every cell, and every slot of it on sequential templates
+  const copiesPerPage = getGridCells(printPrefs.page, printPrefs.cardSize).length *
+    (activeTemplate?.fillMode === 'sequential' ? Math.max(1, activeTemplate.areas.length) : 1);
+
+  const handleMergedImagesReady = (images: MergedCard[]) => {
     setMergedImages(images);
   };
 
-  const handleSettingsSave = (settings: SavedSettings) => {
-    setSavedSettings(settings);
-    // Re-merge if we already have QRIS images
-    setMergedImages([]);
+  // The merger re-renders only the cards a template change affects
+  const handleLibraryChange = (next: TemplateLibrary) => {
+    setLibrary(next);
+  };
+
+  // Same reporting as the settings modal: when storage refuses the change, say so and keep the old state
+  const persistLibrary = (next: TemplateLibrary) => {
+    try {
+      saveLibrary(next);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Gagal menyimpan template.');
+      return;
+    }
+    handleLibraryChange(next);
+  };
+
+  const handleTemplateSwitch = (activeId: string) => {
+    persistLibrary({ ...library, activeId });
+  };
+
+  // Print preferences travel with the active template
+  const updatePrint = (patch: Partial<PrintPreferences>) => {
+    if (!activeTemplate) return;
+    const updated = { ...activeTemplate, print: { ...activeTemplate.print, ...patch } };
+    persistLibrary({ ...library, templates: library.templates.map(t => (t.id === updated.id ? updated : t)) });
   };
 
   const clearAll = () => {
-    qrisImages.forEach(img => URL.revokeObjectURL(img.preview));
+    qrisImages.forEach(revokeQrisImage);
     setQrisImages([]);
     setMergedImages([]);
   };
 
-  const hasSettings = savedSettings && savedSettings.frameImage && savedSettings.areaConfig;
+  const flaggedCount = qrisImages.filter(img => img.status !== 'decoding' && !isMergeable(img)).length;
+  const isDecoding = qrisImages.some(img => img.status === 'decoding');
+
+  // Only hand finished, valid decodes to the merger unless the user opts in
+  const mergeQueue = useMemo(
+    () => qrisImages.filter(img => img.status !== 'decoding' && (includeFlagged || isMergeable(img))),
+    [qrisImages, includeFlagged]
+  );
+
+  const hasSettings = isTemplateReady(activeTemplate);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
@@ -81,13 +253,27 @@ function App() {
               <h1 className="text-4xl font-bold text-slate-800 mb-1">QRIS Frame Merger</h1>
               <p className="text-slate-600">Gabungkan gambar QRIS ke dalam frame dan atur layout cetak</p>
             </div>
-            <button
-              onClick={() => setShowSettings(true)}
-              className="px-5 py-2.5 bg-white text-slate-700 rounded-xl hover:bg-slate-50 transition-colors font-medium flex items-center gap-2 shadow-md border border-slate-200"
-            >
-              <Settings className="w-5 h-5" />
-              Pengaturan
-            </button>
+            <div className="flex items-center gap-3">
+              {library.templates.length > 1 && (
+                <select
+                  value={library.activeId ?? ''}
+                  onChange={(e) => handleTemplateSwitch(e.target.value)}
+                  className="px-3 py-2.5 bg-white text-slate-700 rounded-xl font-medium shadow-md border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="Template aktif"
+                >
+                  {library.templates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => setShowSettings(true)}
+                className="px-5 py-2.5 bg-white text-slate-700 rounded-xl hover:bg-slate-50 transition-colors font-medium flex items-center gap-2 shadow-md border border-slate-200"
+              >
+                <Settings className="w-5 h-5" />
+                Pengaturan
+              </button>
+            </div>
           </div>
 
           {/* Settings status */}
@@ -115,14 +301,16 @@ function App() {
             <div className="bg-emerald-50 border border-emerald-200 rounded-xl p-4 mb-8">
               <div className="flex items-center gap-4">
                 <img
-                  src={savedSettings.frameImage}
+                  src={activeTemplate.frameImage}
                   alt="Frame"
                   className="w-16 h-20 object-cover rounded-lg border border-emerald-200 shadow-sm"
                 />
                 <div className="flex-1">
-                  <h3 className="font-semibold text-emerald-800 text-sm">✅ Pengaturan Tersimpan</h3>
+                  <h3 className="font-semibold text-emerald-800 text-sm">✅ Template: {activeTemplate.name}</h3>
                   <p className="text-emerald-700 text-xs mt-0.5">
-                    Frame & area QRIS sudah dikonfigurasi. Area: X:{savedSettings.areaConfig.x.toFixed(1)}% Y:{savedSettings.areaConfig.y.toFixed(1)}% W:{savedSettings.areaConfig.width.toFixed(1)}% H:{savedSettings.areaConfig.height.toFixed(1)}%
+                    {activeTemplate.areas.length === 1
+                      ? `Frame & area QRIS sudah dikonfigurasi. Area: X:${activeTemplate.areas[0].x.toFixed(1)}% Y:${activeTemplate.areas[0].y.toFixed(1)}% W:${activeTemplate.areas[0].width.toFixed(1)}% H:${activeTemplate.areas[0].height.toFixed(1)}%`
+                      : `Frame dengan ${activeTemplate.areas.length} slot QRIS (${activeTemplate.fillMode === 'repeat' ? 'QRIS sama di semua slot' : 'berurutan'}).`}
                   </p>
                 </div>
                 <button
@@ -137,57 +325,211 @@ function App() {
 
           {/* QRIS Upload */}
           <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
-            <h2 className="text-xl font-semibold text-slate-800 mb-4 flex items-center gap-2">
-              <Plus className="w-5 h-5" />
-              Upload QRIS Images ({qrisImages.length})
-            </h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-slate-800 flex items-center gap-2">
+                <Plus className="w-5 h-5" />
+                Upload QRIS Images ({qrisImages.length})
+                {isDecoding && <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />}
+              </h2>
+              <button
+                onClick={() => setShowBatchImport(true)}
+                className="px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Import CSV / Payload
+              </button>
+            </div>
 
             <button
               onClick={() => qrisInputRef.current?.click()}
-              className="w-full py-6 border-2 border-dashed border-slate-300 rounded-xl hover:border-green-500 hover:bg-green-50 transition-all flex flex-col items-center justify-center gap-2 mb-4 group"
+              onDragOver={(e) => {
+                // Reordering the grid below is not an upload
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDropTarget(true);
+              }}
+              onDragLeave={() => setIsDropTarget(false)}
+              onDrop={handleQrisDrop}
+              className={`w-full py-6 border-2 border-dashed rounded-xl hover:border-green-500 hover:bg-green-50 transition-all flex flex-col items-center justify-center gap-2 mb-4 group ${isDropTarget ? 'border-green-500 bg-green-50' : 'border-slate-300'}`}
             >
-              <Upload className="w-10 h-10 text-slate-400 group-hover:text-green-500" />
+              {isPreparingUpload
+                ? <Loader2 className="w-10 h-10 text-green-500 animate-spin" />
+                : <Upload className="w-10 h-10 text-slate-400 group-hover:text-green-500" />}
               <span className="text-slate-600 group-hover:text-green-600 font-medium">Upload QRIS Images</span>
-              <span className="text-sm text-slate-400">Bisa multiple files sekaligus</span>
+              <span className="text-sm text-slate-400">Klik, seret file atau folder ke sini, atau tempel (Ctrl+V). PDF dipecah per halaman.</span>
             </button>
 
             <input
               ref={qrisInputRef}
               type="file"
-              accept="image/*"
+              accept="image/*,application/pdf"
               multiple
               onChange={handleQrisUpload}
               className="hidden"
             />
 
+            {flaggedCount > 0 && (
+              <div className="flex items-center justify-between gap-3 bg-red-50 border border-red-200 rounded-lg px-4 py-2.5 mb-4">
+                <div className="flex items-center gap-2 text-sm text-red-700">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  {flaggedCount} gambar QR tidak terbaca atau CRC tidak valid{includeFlagged ? '' : ' dan tidak akan digabung'}.
+                </div>
+                <label className="flex items-center gap-2 text-sm text-red-700 whitespace-nowrap cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeFlagged}
+                    onChange={(e) => setIncludeFlagged(e.target.checked)}
+                    className="rounded border-red-300"
+                  />
+                  Tetap sertakan
+                </label>
+              </div>
+            )}
+
             {qrisImages.length > 0 && (
-              <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 gap-3 max-h-80 overflow-y-auto">
-                {qrisImages.map((img) => (
-                  <div key={img.id} className="relative group">
-                    <img
-                      src={img.preview}
-                      alt="QRIS"
-                      className="w-full rounded-lg shadow border border-slate-200"
-                    />
-                    <button
-                      onClick={() => removeQrisImage(img.id)}
-                      className="absolute top-1 right-1 bg-red-500 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3 max-h-[28rem] overflow-y-auto">
+                {qrisImages.map((img) => {
+                  const flagged = img.status !== 'decoding' && !isMergeable(img);
+                  return (
+                    <div
+                      key={img.id}
+                      draggable
+                      onDragStart={(e) => {
+                        setDragId(img.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                      }}
+                      onDragOver={(e) => {
+                        if (!dragId) return;
+                        e.preventDefault();
+                        e.dataTransfer.dropEffect = 'move';
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        if (dragId) moveQrisImage(dragId, img.id);
+                        setDragId(null);
+                      }}
+                      onDragEnd={() => setDragId(null)}
+                      className={`relative group rounded-lg border bg-white shadow overflow-hidden cursor-grab ${flagged ? 'border-red-300 ring-1 ring-red-300' : 'border-slate-200'} ${dragId === img.id ? 'opacity-40' : ''}`}
                     >
-                      <Trash2 className="w-3 h-3" />
-                    </button>
-                  </div>
-                ))}
+                      <GripVertical className="absolute top-1 left-1 w-4 h-4 text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity" />
+                      <img
+                        src={img.preview}
+                        alt="QRIS"
+                        className="w-full aspect-square object-contain bg-slate-50"
+                      />
+                      <div className="p-2 text-xs space-y-0.5">
+                        {img.status === 'decoding' && (
+                          <div className="flex items-center gap-1.5 text-slate-400">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            Membaca QR...
+                          </div>
+                        )}
+                        {img.info && (
+                          <>
+                            {img.label && (
+                              <div className="text-blue-600 font-medium truncate" title={img.label}>{img.label}</div>
+                            )}
+                            <div className="font-semibold text-slate-800 truncate" title={img.info.merchantName}>
+                              {img.info.merchantName || '—'}
+                            </div>
+                            <div className="text-slate-500 truncate">{img.info.merchantCity}</div>
+                            <div className="font-mono text-slate-500 truncate" title="NMID">{img.info.nmid ?? 'NMID —'}</div>
+                            <div className="flex items-center gap-1 flex-wrap pt-0.5">
+                              {img.info.acquirer && (
+                                <span className="px-1.5 py-0.5 bg-slate-100 text-slate-600 rounded">{img.info.acquirer}</span>
+                              )}
+                              <span className={`px-1.5 py-0.5 rounded ${img.info.isDynamic || img.dynamicAmount ? 'bg-violet-100 text-violet-700' : 'bg-sky-100 text-sky-700'}`}>
+                                {img.dynamicAmount ? formatRupiah(img.dynamicAmount.amount) : img.info.isDynamic ? 'Dinamis' : 'Statis'}
+                              </span>
+                              <span
+                                className={`px-1.5 py-0.5 rounded font-mono ${img.info.crcValid ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}
+                                title="CRC"
+                              >
+                                {img.info.crc}
+                              </span>
+                            </div>
+                          </>
+                        )}
+                        {flagged && img.error && (
+                          <div className="flex items-center gap-1 text-red-600 font-medium">
+                            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                            <span className="truncate" title={img.error}>{img.error}</span>
+                          </div>
+                        )}
+                        <div className="flex items-center gap-1 pt-1">
+                          <span className="text-slate-500">Jumlah</span>
+                          <input
+                            type="number"
+                            min={1}
+                            max={999}
+                            value={img.copies ?? 1}
+                            onChange={(e) => setCopies(img.id, Number(e.target.value) || 1)}
+                            className="w-14 px-1.5 py-0.5 border border-slate-300 rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                          {copiesPerPage > 1 && (
+                            <button
+                              onClick={() => setCopies(img.id, copiesPerPage)}
+                              className="ml-auto px-1.5 py-0.5 bg-slate-100 text-slate-600 rounded hover:bg-slate-200 transition-colors"
+                              title={`Isi satu halaman penuh (${copiesPerPage}×)`}
+                            >
+                              1 hal
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {textFields.length > 0 && (
+                          <button
+                            onClick={() => setFieldsEditId(img.id)}
+                            className={`${img.fieldValues && Object.keys(img.fieldValues).length > 0 ? 'bg-blue-600' : 'bg-slate-700'} text-white p-1 rounded-full`}
+                            title="Teks kartu"
+                          >
+                            <Type className="w-3 h-3" />
+                          </button>
+                        )}
+                        {img.status !== 'decoding' && (
+                          <button
+                            onClick={() => setCropEditId(img.id)}
+                            className={`${img.crop ? 'bg-blue-600' : 'bg-slate-700'} text-white p-1 rounded-full`}
+                            title="Atur potongan"
+                          >
+                            <Crop className="w-3 h-3" />
+                          </button>
+                        )}
+                        {img.status === 'valid' && !img.info?.isDynamic && (
+                          <button
+                            onClick={() => setAmountEditId(img.id)}
+                            className={`${img.dynamicAmount ? 'bg-violet-600' : 'bg-slate-700'} text-white p-1 rounded-full`}
+                            title="Atur nominal (QRIS dinamis)"
+                          >
+                            <Banknote className="w-3 h-3" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => removeQrisImage(img.id)}
+                          className="bg-red-500 text-white p-1 rounded-full"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             )}
           </div>
 
           {/* Merge & Print */}
-          {hasSettings && qrisImages.length > 0 && (
+          {hasSettings && mergeQueue.length > 0 && (
             <>
               <ImageMerger
-                frameImage={savedSettings!.frameImage}
-                qrisImages={qrisImages}
-                areaConfig={savedSettings!.areaConfig}
+                frameImage={activeTemplate!.frameImage}
+                qrisImages={mergeQueue}
+                areas={activeTemplate!.areas}
+                fillMode={activeTemplate!.fillMode}
+                textFields={activeTemplate!.textFields}
+                placement={activeTemplate!.placement}
+                regenerateQr={regenerateQr}
                 onMergedImagesReady={handleMergedImagesReady}
               />
 
@@ -195,24 +537,51 @@ function App() {
                 <div className="flex items-center justify-between mb-6">
                   <h2 className="text-xl font-semibold text-slate-800">Layout Cetak</h2>
                   <div className="flex items-center gap-4">
-                    <label className="text-slate-700 font-medium">Gambar per halaman:</label>
-                    <select
-                      value={imagesPerPage}
-                      onChange={(e) => setImagesPerPage(Number(e.target.value))}
-                      className="px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    <label
+                      className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer"
+                      title="Buat ulang QR dari payload agar tajam saat dicetak (PDF memakai vektor)"
                     >
-                      <option value={1}>1</option>
-                      <option value={2}>2</option>
-                      <option value={4}>4</option>
-                      <option value={6}>6</option>
-                    </select>
+                      <input
+                        type="checkbox"
+                        checked={regenerateQr}
+                        onChange={(e) => setRegenerateQr(e.target.checked)}
+                        className="rounded border-slate-300"
+                      />
+                      Render ulang QR (vektor)
+                    </label>
+                    <button
+                      onClick={() => setShowPageSetup(prev => !prev)}
+                      className={`px-4 py-2 rounded-lg transition-colors font-medium text-sm flex items-center gap-2 ${showPageSetup
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                        }`}
+                    >
+                      <LayoutGrid className="w-4 h-4" />
+                      Atur Halaman
+                    </button>
                   </div>
                 </div>
 
+                {showPageSetup && (
+                  <PageSetupPanel
+                    page={printPrefs.page}
+                    cardSize={printPrefs.cardSize}
+                    marks={printPrefs.marks}
+                    frameAspect={mergedImages[0] ? mergedImages[0].height / mergedImages[0].width : null}
+                    onChange={(page) => updatePrint({ page })}
+                    onCardSizeChange={(cardSize) => updatePrint({ cardSize })}
+                    onMarksChange={(marks) => updatePrint({ marks })}
+                  />
+                )}
+
                 {mergedImages.length > 0 && (
                   <PrintLayout
                     mergedImages={mergedImages}
-                    imagesPerPage={imagesPerPage}
+                    images={qrisImages}
+                    page={printPrefs.page}
+                    cardSize={printPrefs.cardSize}
+                    marks={printPrefs.marks}
+                    templateName={activeTemplate?.name ?? ''}
                   />
                 )}
               </div>
@@ -235,8 +604,39 @@ function App() {
       <SettingsModal
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
-        savedSettings={savedSettings}
-        onSave={handleSettingsSave}
+        library={library}
+        onLibraryChange={handleLibraryChange}
+      />
+
+      <BatchImportModal
+        isOpen={showBatchImport}
+        onClose={() => setShowBatchImport(false)}
+        onImport={handleBatchImport}
+      />
+
+      <FieldValuesModal
+        isOpen={!!fieldsEditImage}
+        image={fieldsEditImage}
+        textFields={textFields}
+        onClose={() => setFieldsEditId(null)}
+        onSave={(values) => fieldsEditId && setFieldValues(fieldsEditId, values)}
+      />
+
+      <CropModal
+        isOpen={!!cropEditImage}
+        source={cropEditImage?.source ?? ''}
+        crop={cropEditImage?.crop}
+        onClose={() => setCropEditId(null)}
+        onSave={(crop) => cropEditId && handleCropSave(cropEditId, crop)}
+      />
+
+      <AmountModal
+        isOpen={!!amountEditImage?.payload}
+        merchantName={amountEditImage?.info?.merchantName ?? ''}
+        payload={amountEditImage?.payload ?? ''}
+        value={amountEditImage?.dynamicAmount}
+        onClose={() => setAmountEditId(null)}
+        onSave={(value) => amountEditId && setDynamicAmount(amountEditId, value)}
       />
     </div>
   );
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { Banknote, X, Trash2, Check } from 'lucide-react';
+import { DynamicAmount, TipMode, formatRupiah, toDynamicQris } from '../lib/qris';
+
+interface AmountModalProps {
+    isOpen: boolean;
+    merchantName: string;
+    payload: string;
+    value: DynamicAmount | undefined;
+    onClose: () => void;
+    onSave: (value: DynamicAmount | undefined) => void;
+}
+
+const TIP_OPTIONS: { value: TipMode; label: string }[] = [
+    { value: 'none', label: 'Tanpa tip / biaya' },
+    { value: 'prompt', label: 'Pelanggan mengisi tip' },
+    { value: 'fixed', label: 'Biaya layanan tetap (Rp)' },
+    { value: 'percent', label: 'Biaya layanan persentase (%)' },
+];
+
+function AmountModal({ isOpen, merchantName, payload, value, onClose, onSave }: AmountModalProps) {
+    const [amount, setAmount] = useState('');
+    const [tipMode, setTipMode] = useState<TipMode>('none');
+    const [tipValue, setTipValue] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            setAmount(value ? String(value.amount) : '');
+            setTipMode(value?.tipMode ?? 'none');
+            setTipValue(value?.tipValue ? String(value.tipValue) : '');
+        }
+    }, [isOpen, value]);
+
+    if (!isOpen) return null;
+
+    const draft: DynamicAmount = {
+        amount: Number(amount),
+        tipMode,
+        tipValue: tipMode === 'fixed' || tipMode === 'percent' ? Number(tipValue) : undefined,
+    };
+
+    let previewPayload: string | null = null;
+    let error: string | null = null;
+    if (amount) {
+        try {
+            previewPayload = toDynamicQris(payload, draft);
+        } catch (err) {
+            error = err instanceof Error ? err.message : 'Nominal tidak valid';
+        }
+    }
+
+    const canSave = previewPayload !== null && !error;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+            <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-md mx-4 z-10">
+                <div className="flex items-center justify-between p-5 border-b border-slate-200">
+                    <div>
+                        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                            <Banknote className="w-5 h-5 text-slate-600" />
+                            QRIS Dinamis
+                        </h2>
+                        <p className="text-xs text-slate-500 mt-0.5 truncate">{merchantName}</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-slate-500" />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Nominal transaksi (Rp)</label>
+                        <input
+                            type="number"
+                            min={1}
+                            step={1}
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            placeholder="10000"
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            autoFocus
+                        />
+                        {Number(amount) > 0 && (
+                            <p className="text-xs text-slate-500 mt-1">{formatRupiah(Number(amount))}</p>
+                        )}
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Tip / biaya layanan</label>
+                        <select
+                            value={tipMode}
+                            onChange={(e) => setTipMode(e.target.value as TipMode)}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {TIP_OPTIONS.map(opt => (
+                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {(tipMode === 'fixed' || tipMode === 'percent') && (
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">
+                                {tipMode === 'fixed' ? 'Biaya (Rp)' : 'Biaya (%)'}
+                            </label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={tipMode === 'fixed' ? 1 : 0.1}
+                                value={tipValue}
+                                onChange={(e) => setTipValue(e.target.value)}
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+
+                    {previewPayload && !error && (
+                        <div className="p-2.5 bg-slate-50 rounded-lg border border-slate-200">
+                            <p className="text-xs text-slate-400 mb-1">Payload baru</p>
+                            <p className="font-mono text-[10px] text-slate-600 break-all">{previewPayload}</p>
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-5 border-t border-slate-200 flex items-center justify-between">
+                    {value ? (
+                        <button
+                            onClick={() => onSave(undefined)}
+                            className="px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors text-sm font-medium flex items-center gap-1.5"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                            Kembali ke statis
+                        </button>
+                    ) : <div />}
+                    <button
+                        onClick={() => onSave(draft)}
+                        disabled={!canSave}
+                        className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        <Check className="w-4 h-4" />
+                        Terapkan
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default AmountModal;
@@ -1,5 +1,9 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
-import { RotateCcw } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Hand, Magnet, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import { Placement, insetArea, placeContent } from '../lib/placement';
+import { renderQrToDataUrl } from '../lib/qrRender';
+import { Edge, EditResult, QuadEditResult, SnapLines, clampArea, getSnapTargets, moveArea, moveQuad, moveQuadCorner, resizeArea } from '../lib/areaEditing';
+import { Quad, getQuadIssue, quadBounds } from '../lib/perspective';
 
 export interface AreaConfig {
     x: number;      // percentage 0-100
@@ -8,22 +12,85 @@ export interface AreaConfig {
     height: number; // percentage 0-100
 }
 
+export interface AreaGuide {
+    area: AreaConfig;
+    label: string;
+}
+
 interface AreaSelectorProps {
     frameImage: string;
     areaConfig: AreaConfig | null;
     onAreaChange: (area: AreaConfig | null) => void;
+    // Other regions of the same frame, drawn as read-only outlines for reference
+    guides?: AreaGuide[];
+    // When set, a sample QR is laid out inside the selection with these options
+    placement?: Placement;
+    // Width / height in frame pixels the selection starts locked to; 1 keeps it square
+    defaultAspect?: number | null;
+    // Four-corner area; while set the corners are edited instead of the rectangle
+    quad?: Quad | null;
+    onQuadChange?: (quad: Quad) => void;
 }
 
-type DragMode = 'none' | 'draw' | 'move' | 'resize-tl' | 'resize-tr' | 'resize-bl' | 'resize-br';
-
-function AreaSelector({ frameImage, areaConfig, onAreaChange }: AreaSelectorProps) {
+type DragMode = 'none' | 'draw' | 'move' | 'resize' | 'corner' | 'pan';
+type Unit = '%' | 'px';
+// Width / height in frame pixels; null for a free rectangle
+type AspectLock = number | null;
+
+const AREA_FIELDS: { key: keyof AreaConfig; label: string }[] = [
+    { key: 'x', label: 'X' },
+    { key: 'y', label: 'Y' },
+    { key: 'width', label: 'W' },
+    { key: 'height', label: 'H' },
+];
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3, 4];
+// On-screen sizes, so handles and snapping feel the same at every zoom level
+const HIT_SIZE_MOUSE = 10;
+const HIT_SIZE_TOUCH = 20;
+const SNAP_DISTANCE = 8;
+
+const EDGE_CURSORS: Record<string, string> = {
+    tl: 'nwse-resize',
+    br: 'nwse-resize',
+    tr: 'nesw-resize',
+    bl: 'nesw-resize',
+    l: 'ew-resize',
+    r: 'ew-resize',
+    t: 'ns-resize',
+    b: 'ns-resize',
+};
+
+const cursorForEdges = (edges: Edge[]) => EDGE_CURSORS[[...edges].sort((a, b) => 'tblr'.indexOf(a) - 'tblr'.indexOf(b)).join('')];
+
+function AreaSelector({ frameImage, areaConfig, onAreaChange, guides = [], placement, defaultAspect = null, quad = null, onQuadChange }: AreaSelectorProps) {
     const containerRef = useRef<HTMLDivElement>(null);
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+    const showsPlacement = !!placement;
+    const sampleQr = useMemo(() => (showsPlacement ? renderQrToDataUrl('QRIS', 'L') : ''), [showsPlacement]);
     const [dragMode, setDragMode] = useState<DragMode>('none');
+    const [dragEdges, setDragEdges] = useState<Edge[]>([]);
     const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
     const [tempArea, setTempArea] = useState<AreaConfig | null>(null);
     const [originalArea, setOriginalArea] = useState<AreaConfig | null>(null);
-
-    const getRelativePosition = useCallback((e: React.MouseEvent | MouseEvent): { x: number; y: number } => {
+    const [dragCorner, setDragCorner] = useState(0);
+    const [tempQuad, setTempQuad] = useState<Quad | null>(null);
+    const [originalQuad, setOriginalQuad] = useState<Quad | null>(null);
+    const [unit, setUnit] = useState<Unit>('%');
+    const [aspectLock, setAspectLock] = useState<AspectLock>(defaultAspect);
+    const [snapEnabled, setSnapEnabled] = useState(true);
+    const [snapLines, setSnapLines] = useState<SnapLines>({ x: [], y: [] });
+    const [zoom, setZoom] = useState(1);
+    const [panMode, setPanMode] = useState(false);
+    const [hoverCursor, setHoverCursor] = useState('crosshair');
+    const panStartRef = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
+
+    const snapTargets = useMemo(() => getSnapTargets(guides.map(guide => guide.area)), [guides]);
+    // Lock ratio in percent units of this frame
+    const ratio = aspectLock && frameSize ? aspectLock * (frameSize.height / frameSize.width) : aspectLock;
+
+    const getRelativePosition = useCallback((e: React.PointerEvent | PointerEvent): { x: number; y: number } => {
         if (!containerRef.current) return { x: 0, y: 0 };
         const rect = containerRef.current.getBoundingClientRect();
         const x = ((e.clientX - rect.left) / rect.width) * 100;
@@ -34,144 +101,317 @@ function AreaSelector({ frameImage, areaConfig, onAreaChange }: AreaSelectorProp
         };
     }, []);
 
-    const getCornerAtPosition = useCallback((pos: { x: number; y: number }, area: AreaConfig): DragMode => {
-        const handleSize = 3;
-        const corners: { mode: DragMode; cx: number; cy: number }[] = [
-            { mode: 'resize-tl', cx: area.x, cy: area.y },
-            { mode: 'resize-tr', cx: area.x + area.width, cy: area.y },
-            { mode: 'resize-bl', cx: area.x, cy: area.y + area.height },
-            { mode: 'resize-br', cx: area.x + area.width, cy: area.y + area.height },
-        ];
-
-        for (const corner of corners) {
-            if (Math.abs(pos.x - corner.cx) < handleSize && Math.abs(pos.y - corner.cy) < handleSize) {
-                return corner.mode;
-            }
-        }
+    // Screen pixels as percent of the (zoomed) frame on each axis
+    const screenToPct = useCallback((px: number) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        return rect && rect.width > 0 ? { x: (px / rect.width) * 100, y: (px / rect.height) * 100 } : { x: 3, y: 3 };
+    }, []);
+
+    // Corners win over edges, edges over the inside; anywhere else starts a new area
+    const getHitAtPosition = useCallback((pos: { x: number; y: number }, area: AreaConfig, hit: { x: number; y: number }): { mode: DragMode; edges: Edge[] } => {
+        const nearLeft = Math.abs(pos.x - area.x) < hit.x;
+        const nearRight = Math.abs(pos.x - (area.x + area.width)) < hit.x;
+        const nearTop = Math.abs(pos.y - area.y) < hit.y;
+        const nearBottom = Math.abs(pos.y - (area.y + area.height)) < hit.y;
+        const withinX = pos.x > area.x - hit.x && pos.x < area.x + area.width + hit.x;
+        const withinY = pos.y > area.y - hit.y && pos.y < area.y + area.height + hit.y;
+
+        const horizontal: Edge | null = nearLeft ? 'l' : nearRight ? 'r' : null;
+        const vertical: Edge | null = nearTop ? 't' : nearBottom ? 'b' : null;
+        if (horizontal && vertical) return { mode: 'resize', edges: [horizontal, vertical] };
+        if (horizontal && withinY) return { mode: 'resize', edges: [horizontal] };
+        if (vertical && withinX) return { mode: 'resize', edges: [vertical] };
 
         if (
             pos.x >= area.x && pos.x <= area.x + area.width &&
             pos.y >= area.y && pos.y <= area.y + area.height
         ) {
-            return 'move';
+            return { mode: 'move', edges: [] };
         }
 
-        return 'draw';
+        return { mode: 'draw', edges: [] };
+    }, []);
+
+    // Nearest corner within reach, else the inside; a quad is never redrawn from scratch
+    const getQuadHit = useCallback((pos: { x: number; y: number }, corners: Quad, hit: { x: number; y: number }): { mode: DragMode; corner: number } => {
+        let corner = -1;
+        let best = Infinity;
+        corners.forEach((p, index) => {
+            const dx = Math.abs(pos.x - p.x) / hit.x;
+            const dy = Math.abs(pos.y - p.y) / hit.y;
+            if (dx < 1 && dy < 1 && dx + dy < best) {
+                best = dx + dy;
+                corner = index;
+            }
+        });
+        if (corner >= 0) return { mode: 'corner', corner };
+
+        // Inside when the point is on the same side of every edge
+        const sides = corners.map((p, index) => {
+            const next = corners[(index + 1) % 4];
+            return Math.sign((next.x - p.x) * (pos.y - p.y) - (next.y - p.y) * (pos.x - p.x));
+        });
+        const inside = sides.every(side => side >= 0) || sides.every(side => side <= 0);
+        return { mode: inside ? 'move' : 'none', corner: 0 };
     }, []);
 
-    const handleMouseDown = useCallback((e: React.MouseEvent) => {
+    const handlePointerDown = useCallback((e: React.PointerEvent) => {
+        const middleButton = e.pointerType === 'mouse' && e.button === 1;
+        if (e.pointerType === 'mouse' && e.button !== 0 && !middleButton) return;
         e.preventDefault();
+        // preventDefault on pointerdown also stops the focus that keyboard nudging relies on
+        containerRef.current?.focus();
+
+        if (panMode || middleButton) {
+            const viewport = viewportRef.current;
+            if (!viewport) return;
+            panStartRef.current = { x: e.clientX, y: e.clientY, left: viewport.scrollLeft, top: viewport.scrollTop };
+            setDragMode('pan');
+            return;
+        }
+
         const pos = getRelativePosition(e);
+        // Fingers need bigger targets than a mouse
+        const hit = screenToPct(e.pointerType === 'mouse' ? HIT_SIZE_MOUSE : HIT_SIZE_TOUCH);
 
-        if (areaConfig) {
-            const mode = getCornerAtPosition(pos, areaConfig);
+        if (quad) {
+            const { mode, corner } = getQuadHit(pos, quad, hit);
+            if (mode === 'none') return;
             setDragMode(mode);
+            setDragCorner(corner);
             setDragStart(pos);
-            setOriginalArea({ ...areaConfig });
+            setOriginalQuad(quad);
+            return;
+        }
 
-            if (mode === 'draw') {
-                setTempArea({ x: pos.x, y: pos.y, width: 0, height: 0 });
-            }
-        } else {
-            setDragMode('draw');
-            setDragStart(pos);
+        const { mode, edges } = areaConfig ? getHitAtPosition(pos, areaConfig, hit) : { mode: 'draw' as DragMode, edges: [] };
+
+        setDragMode(mode);
+        setDragEdges(edges);
+        setDragStart(pos);
+        setOriginalArea(areaConfig ? { ...areaConfig } : null);
+        if (mode === 'draw') {
             setTempArea({ x: pos.x, y: pos.y, width: 0, height: 0 });
         }
-    }, [areaConfig, getRelativePosition, getCornerAtPosition]);
-
-    const handleMouseMove = useCallback((e: MouseEvent) => {
+    }, [areaConfig, quad, panMode, getRelativePosition, screenToPct, getHitAtPosition, getQuadHit]);
+
+    const handlePointerMove = useCallback((e: PointerEvent) => {
+        if (dragMode === 'pan') {
+            const viewport = viewportRef.current;
+            const start = panStartRef.current;
+            if (!viewport || !start) return;
+            viewport.scrollLeft = start.left - (e.clientX - start.x);
+            viewport.scrollTop = start.top - (e.clientY - start.y);
+            return;
+        }
         if (dragMode === 'none' || !dragStart) return;
 
         const pos = getRelativePosition(e);
+        const dx = pos.x - dragStart.x;
+        const dy = pos.y - dragStart.y;
+        // Alt temporarily turns snapping off
+        const targets = snapEnabled && !e.altKey ? snapTargets : null;
+        const threshold = screenToPct(SNAP_DISTANCE);
+
+        if (originalQuad) {
+            let quadResult: QuadEditResult | null = null;
+            if (dragMode === 'corner') quadResult = moveQuadCorner(originalQuad, dragCorner, pos, targets, threshold);
+            else if (dragMode === 'move') quadResult = moveQuad(originalQuad, dx, dy, targets, threshold);
+            if (quadResult) {
+                setTempQuad(quadResult.quad);
+                setSnapLines(quadResult.lines);
+            }
+            return;
+        }
 
+        let result: EditResult | null = null;
         if (dragMode === 'draw') {
-            const newArea: AreaConfig = {
-                x: Math.min(dragStart.x, pos.x),
-                y: Math.min(dragStart.y, pos.y),
-                width: Math.abs(pos.x - dragStart.x),
-                height: Math.abs(pos.y - dragStart.y),
-            };
-            setTempArea(newArea);
+            // A new area grows from the press point towards the pointer
+            const edges: Edge[] = [dx < 0 ? 'l' : 'r', dy < 0 ? 't' : 'b'];
+            result = resizeArea({ ...dragStart, width: 0, height: 0 }, edges, dx, dy, ratio, targets, threshold);
         } else if (dragMode === 'move' && originalArea) {
-            const dx = pos.x - dragStart.x;
-            const dy = pos.y - dragStart.y;
-            let newX = originalArea.x + dx;
-            let newY = originalArea.y + dy;
-            newX = Math.max(0, Math.min(100 - originalArea.width, newX));
-            newY = Math.max(0, Math.min(100 - originalArea.height, newY));
-
-            setTempArea({
-                x: newX,
-                y: newY,
-                width: originalArea.width,
-                height: originalArea.height,
-            });
-        } else if (dragMode.startsWith('resize-') && originalArea) {
-            let newX = originalArea.x;
-            let newY = originalArea.y;
-            let newW = originalArea.width;
-            let newH = originalArea.height;
-
-            const dx = pos.x - dragStart.x;
-            const dy = pos.y - dragStart.y;
-
-            if (dragMode === 'resize-tl') {
-                newX = originalArea.x + dx;
-                newY = originalArea.y + dy;
-                newW = originalArea.width - dx;
-                newH = originalArea.height - dy;
-            } else if (dragMode === 'resize-tr') {
-                newY = originalArea.y + dy;
-                newW = originalArea.width + dx;
-                newH = originalArea.height - dy;
-            } else if (dragMode === 'resize-bl') {
-                newX = originalArea.x + dx;
-                newW = originalArea.width - dx;
-                newH = originalArea.height + dy;
-            } else if (dragMode === 'resize-br') {
-                newW = originalArea.width + dx;
-                newH = originalArea.height + dy;
-            }
-
-            if (newW < 2) newW = 2;
-            if (newH < 2) newH = 2;
-            newX = Math.max(0, Math.min(100 - newW, newX));
-            newY = Math.max(0, Math.min(100 - newH, newY));
-
-            setTempArea({ x: newX, y: newY, width: newW, height: newH });
+            result = moveArea(originalArea, dx, dy, targets, threshold);
+        } else if (dragMode === 'resize' && originalArea) {
+            result = resizeArea(originalArea, dragEdges, dx, dy, ratio, targets, threshold);
+        }
+        if (result) {
+            setTempArea(result.area);
+            setSnapLines(result.lines);
         }
-    }, [dragMode, dragStart, originalArea, getRelativePosition]);
+    }, [dragMode, dragEdges, dragCorner, dragStart, originalArea, originalQuad, ratio, snapEnabled, snapTargets, getRelativePosition, screenToPct]);
 
-    const handleMouseUp = useCallback(() => {
-        if (dragMode !== 'none' && tempArea) {
+    const handlePointerUp = useCallback(() => {
+        if (tempQuad) {
+            onQuadChange?.(tempQuad);
+        } else if (dragMode !== 'none' && dragMode !== 'pan' && tempArea) {
             if (tempArea.width > 1 && tempArea.height > 1) {
                 onAreaChange(tempArea);
             }
         }
         setDragMode('none');
+        setDragEdges([]);
         setDragStart(null);
         setTempArea(null);
         setOriginalArea(null);
-    }, [dragMode, tempArea, onAreaChange]);
+        setTempQuad(null);
+        setOriginalQuad(null);
+        setSnapLines({ x: [], y: [] });
+        panStartRef.current = null;
+    }, [dragMode, tempArea, tempQuad, onAreaChange, onQuadChange]);
 
     useEffect(() => {
         if (dragMode !== 'none') {
-            window.addEventListener('mousemove', handleMouseMove);
-            window.addEventListener('mouseup', handleMouseUp);
+            window.addEventListener('pointermove', handlePointerMove);
+            window.addEventListener('pointerup', handlePointerUp);
+            window.addEventListener('pointercancel', handlePointerUp);
             return () => {
-                window.removeEventListener('mousemove', handleMouseMove);
-                window.removeEventListener('mouseup', handleMouseUp);
+                window.removeEventListener('pointermove', handlePointerMove);
+                window.removeEventListener('pointerup', handlePointerUp);
+                window.removeEventListener('pointercancel', handlePointerUp);
             };
         }
-    }, [dragMode, handleMouseMove, handleMouseUp]);
+    }, [dragMode, handlePointerMove, handlePointerUp]);
+
+    // Cursor hints for the handles while nothing is being dragged
+    const handleHover = (e: React.PointerEvent) => {
+        if (dragMode !== 'none' || e.pointerType !== 'mouse') return;
+        if (panMode) {
+            setHoverCursor('grab');
+            return;
+        }
+        if (quad) {
+            const { mode } = getQuadHit(getRelativePosition(e), quad, screenToPct(HIT_SIZE_MOUSE));
+            setHoverCursor(mode === 'corner' ? 'pointer' : mode === 'move' ? 'move' : 'default');
+            return;
+        }
+        if (!areaConfig) {
+            setHoverCursor('crosshair');
+            return;
+        }
+        const { mode, edges } = getHitAtPosition(getRelativePosition(e), areaConfig, screenToPct(HIT_SIZE_MOUSE));
+        setHoverCursor(mode === 'resize' ? cursorForEdges(edges) : mode === 'move' ? 'move' : 'crosshair');
+    };
+
+    // Locking onto a ratio reshapes the current area right away, keeping its width and centre
+    const handleAspectLockChange = (lock: AspectLock) => {
+        setAspectLock(lock);
+        if (!lock || !areaConfig) return;
+        const lockRatio = frameSize ? lock * (frameSize.height / frameSize.width) : lock;
+        onAreaChange(resizeArea(areaConfig, ['r'], 0, 0, lockRatio, null, { x: 0, y: 0 }).area);
+    };
+
+    const changeZoom = (direction: 1 | -1) => {
+        const index = ZOOM_LEVELS.indexOf(zoom) + direction;
+        setZoom(ZOOM_LEVELS[Math.max(0, Math.min(ZOOM_LEVELS.length - 1, index))]);
+    };
+
+    // Percent per frame pixel on each axis; before the frame loads one "pixel" is 0.1%
+    const pxToPct = {
+        x: frameSize ? 100 / frameSize.width : 0.1,
+        y: frameSize ? 100 / frameSize.height : 0.1,
+    };
+
+    // Arrow keys nudge the area by one frame pixel, ten with Shift
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (!areaConfig || dragMode !== 'none') return;
+        const step = e.shiftKey ? 10 : 1;
+        const moves: Record<string, [number, number]> = {
+            ArrowLeft: [-step, 0],
+            ArrowRight: [step, 0],
+            ArrowUp: [0, -step],
+            ArrowDown: [0, step],
+        };
+        const move = moves[e.key];
+        if (!move) return;
+        e.preventDefault();
+        if (quad) {
+            onQuadChange?.(moveQuad(quad, move[0] * pxToPct.x, move[1] * pxToPct.y, null, { x: 0, y: 0 }).quad);
+            return;
+        }
+        onAreaChange(clampArea({
+            ...areaConfig,
+            x: areaConfig.x + move[0] * pxToPct.x,
+            y: areaConfig.y + move[1] * pxToPct.y,
+        }));
+    };
+
+    const toDisplay = (key: keyof AreaConfig, value: number) => {
+        if (unit === '%') return Math.round(value * 100) / 100;
+        return Math.round(value / (key === 'x' || key === 'width' ? pxToPct.x : pxToPct.y));
+    };
+
+    const handleFieldChange = (key: keyof AreaConfig, input: string) => {
+        if (!areaConfig || input === '') return;
+        const value = Number(input);
+        if (!Number.isFinite(value)) return;
+        const percent = unit === '%' ? value : value * (key === 'x' || key === 'width' ? pxToPct.x : pxToPct.y);
+        onAreaChange(clampArea({ ...areaConfig, [key]: percent }));
+    };
 
-    const activeArea = tempArea || areaConfig;
+    const activeQuad = tempQuad || quad;
+    const activeArea = activeQuad ? quadBounds(activeQuad) : tempArea || areaConfig;
+    // Judged in frame pixels, where the angles are the ones that get printed
+    const quadIssue = activeQuad && frameSize
+        ? getQuadIssue(activeQuad.map(p => ({ x: (p.x / 100) * frameSize.width, y: (p.y / 100) * frameSize.height })) as Quad)
+        : null;
 
     const getCursorStyle = (): string => {
+        if (dragMode === 'pan') return 'grabbing';
         if (dragMode === 'move') return 'grabbing';
         if (dragMode === 'draw') return 'crosshair';
-        if (dragMode.startsWith('resize-')) return 'nwse-resize';
-        return 'crosshair';
+        if (dragMode === 'resize') return cursorForEdges(dragEdges);
+        if (dragMode === 'corner') return 'pointer';
+        return hoverCursor;
+    };
+
+    // Same math as the merger, in frame pixels, so non-square frames preview correctly
+    const renderPlacementPreview = (area: AreaConfig) => {
+        if (!placement || !frameSize) return null;
+        const { width: fw, height: fh } = frameSize;
+        const rect = { x: (area.x / 100) * fw, y: (area.y / 100) * fh, width: (area.width / 100) * fw, height: (area.height / 100) * fh };
+        const inner = insetArea(rect, placement.padding);
+        const box = placeContent(1, 1, inner, placement);
+        const quarterTurn = placement.rotation === 90 || placement.rotation === 270;
+        const drawWidth = quarterTurn ? box.height : box.width;
+        const drawHeight = quarterTurn ? box.width : box.height;
+        const pct = (value: number, total: number) => `${(value / total) * 100}%`;
+
+        return (
+            <div
+                className="absolute pointer-events-none"
+                style={{
+                    left: `${area.x}%`,
+                    top: `${area.y}%`,
+                    width: `${area.width}%`,
+                    height: `${area.height}%`,
+                    background: placement.background ?? undefined,
+                }}
+            >
+                <div
+                    className="absolute overflow-hidden"
+                    style={{
+                        left: pct(inner.x - rect.x, rect.width),
+                        top: pct(inner.y - rect.y, rect.height),
+                        width: pct(inner.width, rect.width),
+                        height: pct(inner.height, rect.height),
+                    }}
+                >
+                    <img
+                        src={sampleQr}
+                        alt=""
+                        className="absolute max-w-none opacity-80"
+                        draggable={false}
+                        style={{
+                            left: pct(box.x + box.width / 2 - drawWidth / 2 - inner.x, inner.width),
+                            top: pct(box.y + box.height / 2 - drawHeight / 2 - inner.y, inner.height),
+                            width: pct(drawWidth, inner.width),
+                            height: pct(drawHeight, inner.height),
+                            transform: `rotate(${placement.rotation}deg)`,
+                        }}
+                    />
+                </div>
+            </div>
+        );
     };
 
     const handleReset = () => {
@@ -186,7 +426,9 @@ function AreaSelector({ frameImage, areaConfig, onAreaChange }: AreaSelectorProp
                 <p className="text-sm text-slate-500">
                     {!areaConfig
                         ? '🎯 Klik dan drag pada gambar untuk menandai area penempatan QRIS'
-                        : '✅ Area ditandai. Drag untuk pindah, seret sudut untuk resize.'}
+                        : quad
+                            ? '✅ Area 4 sudut. Seret titik sudut mengikuti bidang miring, drag bagian dalam untuk pindah, panah untuk geser.'
+                            : '✅ Area ditandai. Drag untuk pindah, seret sudut atau sisi untuk resize, panah untuk geser (Shift = 10 px).'}
                 </p>
                 {areaConfig && (
                     <button
@@ -223,82 +465,263 @@ function AreaSelector({ frameImage, areaConfig, onAreaChange }: AreaSelectorProp
                 </div>
             )}
 
-            {/* Frame with draggable area overlay */}
-            <div
-                ref={containerRef}
-                className="relative select-none rounded-lg overflow-hidden border-2 border-slate-200"
-                style={{ cursor: getCursorStyle() }}
-                onMouseDown={handleMouseDown}
-            >
-                <img
-                    src={frameImage}
-                    alt="Frame Template"
-                    className="w-full block pointer-events-none"
-                    draggable={false}
-                />
-
-                {/* Overlay & selection */}
-                {activeArea && activeArea.width > 0 && activeArea.height > 0 && (
-                    <>
-                        <div
-                            className="absolute inset-0 bg-black/40 pointer-events-none"
-                            style={{
-                                clipPath: `polygon(
-                  0% 0%, 100% 0%, 100% 100%, 0% 100%,
-                  0% ${activeArea.y}%,
-                  ${activeArea.x}% ${activeArea.y}%,
-                  ${activeArea.x}% ${activeArea.y + activeArea.height}%,
-                  ${activeArea.x + activeArea.width}% ${activeArea.y + activeArea.height}%,
-                  ${activeArea.x + activeArea.width}% ${activeArea.y}%,
-                  0% ${activeArea.y}%
-                )`,
-                            }}
-                        />
+            {/* Perspective check */}
+            {quadIssue && (
+                <div className={`mb-3 p-2.5 rounded-lg border text-xs ${quadIssue === 'invalid' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-700'}`}>
+                    {quadIssue === 'invalid'
+                        ? 'Sudut-sudut area bersilangan atau cekung. QR akan ditempel tegak pada kotak pembatasnya sampai bentuknya diperbaiki.'
+                        : 'Area sangat miring: modul QR menjadi tipis sehingga bisa sulit dipindai. Perbesar area atau kurangi kemiringan, lalu periksa hasil cek scan di halaman cetak.'}
+                </div>
+            )}
 
-                        <div
-                            className="absolute border-2 border-blue-500 pointer-events-none"
-                            style={{
-                                left: `${activeArea.x}%`,
-                                top: `${activeArea.y}%`,
-                                width: `${activeArea.width}%`,
-                                height: `${activeArea.height}%`,
-                                boxShadow: '0 0 0 1px rgba(59, 130, 246, 0.5)',
-                            }}
-                        >
-                            <div className="absolute inset-1 border border-dashed border-blue-300 pointer-events-none" />
-                        </div>
+            {/* Exact position */}
+            {areaConfig && !quad && (
+                <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+                    {AREA_FIELDS.map(field => (
+                        <label key={field.key} className="flex items-center gap-1">
+                            <span className="text-slate-400">{field.label}</span>
+                            <input
+                                type="number"
+                                step={unit === '%' ? 0.1 : 1}
+                                value={toDisplay(field.key, areaConfig[field.key])}
+                                onChange={(e) => handleFieldChange(field.key, e.target.value)}
+                                className="w-20 px-2 py-1 border border-slate-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </label>
+                    ))}
+                    <div className="flex rounded-md border border-slate-300 overflow-hidden">
+                        {(['%', 'px'] as Unit[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setUnit(option)}
+                                disabled={option === 'px' && !frameSize}
+                                className={`px-2 py-1 font-medium transition-colors ${unit === option ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
 
-                        {/* Corner handles */}
-                        {['tl', 'tr', 'bl', 'br'].map((corner) => {
-                            const isLeft = corner.includes('l');
-                            const isTop = corner.includes('t');
-                            return (
-                                <div
-                                    key={corner}
-                                    className="absolute w-3 h-3 bg-white border-2 border-blue-500 rounded-sm pointer-events-none"
-                                    style={{
-                                        left: `${isLeft ? activeArea.x : activeArea.x + activeArea.width}%`,
-                                        top: `${isTop ? activeArea.y : activeArea.y + activeArea.height}%`,
-                                        transform: 'translate(-50%, -50%)',
-                                    }}
-                                />
-                            );
-                        })}
+            {/* Ratio, snapping and view */}
+            <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+                {!quad && (
+                    <div className="flex rounded-md border border-slate-300 overflow-hidden">
+                        {([
+                            { label: 'Bebas', value: null },
+                            { label: '1:1', value: 1 },
+                        ] as { label: string; value: AspectLock }[]).map(option => (
+                            <button
+                                key={option.label}
+                                onClick={() => handleAspectLockChange(option.value)}
+                                className={`px-2 py-1 font-medium transition-colors ${aspectLock === option.value ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => areaConfig && frameSize && handleAspectLockChange((areaConfig.width * frameSize.width) / (areaConfig.height * frameSize.height))}
+                            disabled={!areaConfig || !frameSize}
+                            className={`px-2 py-1 font-medium transition-colors disabled:opacity-40 ${aspectLock !== null && aspectLock !== 1 ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                            title="Kunci rasio area saat ini"
+                        >
+                            Rasio saat ini
+                        </button>
+                    </div>
+                )}
+                <button
+                    onClick={() => setSnapEnabled(prev => !prev)}
+                    className={`px-2 py-1 rounded-md border font-medium flex items-center gap-1 transition-colors ${snapEnabled ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-100'}`}
+                    title="Tempel ke tepi & tengah frame dan area lain (tahan Alt untuk menonaktifkan sementara)"
+                >
+                    <Magnet className="w-3.5 h-3.5" />
+                    Snap
+                </button>
+                <div className="ml-auto flex items-center gap-1">
+                    <button
+                        onClick={() => changeZoom(-1)}
+                        disabled={zoom === ZOOM_LEVELS[0]}
+                        className="p-1 rounded-md border border-slate-300 text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                        title="Perkecil"
+                    >
+                        <ZoomOut className="w-3.5 h-3.5" />
+                    </button>
+                    <span className="w-10 text-center font-mono text-slate-600">{Math.round(zoom * 100)}%</span>
+                    <button
+                        onClick={() => changeZoom(1)}
+                        disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+                        className="p-1 rounded-md border border-slate-300 text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                        title="Perbesar"
+                    >
+                        <ZoomIn className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                        onClick={() => setPanMode(prev => !prev)}
+                        disabled={zoom === 1}
+                        className={`p-1 rounded-md border transition-colors disabled:opacity-40 ${panMode ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-300 text-slate-600 hover:bg-slate-100'}`}
+                        title="Geser tampilan (atau drag dengan tombol tengah mouse)"
+                    >
+                        <Hand className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </div>
 
-                        {/* Center crosshair */}
+            {/* Frame with draggable area overlay */}
+            <div ref={viewportRef} className="overflow-auto max-h-[70vh] rounded-lg border-2 border-slate-200">
+                <div
+                    ref={containerRef}
+                    tabIndex={0}
+                    className="relative select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                    style={{ cursor: getCursorStyle(), width: `${zoom * 100}%` }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handleHover}
+                    onKeyDown={handleKeyDown}
+                >
+                    <img
+                        src={frameImage}
+                        alt="Frame Template"
+                        className="w-full block pointer-events-none"
+                        draggable={false}
+                        onLoad={(e) => setFrameSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                    />
+
+                    {/* Reference outlines */}
+                    {guides.map((guide, index) => (
                         <div
-                            className="absolute w-6 h-6 pointer-events-none flex items-center justify-center"
+                            key={index}
+                            className="absolute border border-dashed border-amber-400 bg-amber-300/10 pointer-events-none"
                             style={{
-                                left: `${activeArea.x + activeArea.width / 2}%`,
-                                top: `${activeArea.y + activeArea.height / 2}%`,
-                                transform: 'translate(-50%, -50%)',
+                                left: `${guide.area.x}%`,
+                                top: `${guide.area.y}%`,
+                                width: `${guide.area.width}%`,
+                                height: `${guide.area.height}%`,
                             }}
                         >
-                            <div className="w-4 h-[2px] bg-blue-500/60 absolute" />
-                            <div className="h-4 w-[2px] bg-blue-500/60 absolute" />
+                            <span className="absolute top-0 left-0 text-[10px] leading-none px-1 py-0.5 bg-amber-400 text-white rounded-sm whitespace-nowrap">
+                                {guide.label}
+                            </span>
                         </div>
-                    </>
-                )}
+                    ))}
+
+                    {/* Four-corner overlay & handles */}
+                    {activeQuad && (
+                        <>
+                            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                                <path
+                                    d={`M0 0H100V100H0Z M${activeQuad.map(p => `${p.x} ${p.y}`).join('L')}Z`}
+                                    fillRule="evenodd"
+                                    fill="rgba(0, 0, 0, 0.4)"
+                                />
+                                <polygon
+                                    points={activeQuad.map(p => `${p.x},${p.y}`).join(' ')}
+                                    fill="none"
+                                    stroke={quadIssue === 'invalid' ? '#ef4444' : '#3b82f6'}
+                                    strokeWidth={2}
+                                    vectorEffect="non-scaling-stroke"
+                                />
+                            </svg>
+                            {activeQuad.map((p, index) => (
+                                <div
+                                    key={index}
+                                    className="absolute w-4 h-4 bg-white border-2 border-blue-500 rounded-full pointer-events-none flex items-center justify-center text-[9px] font-bold leading-none text-blue-600"
+                                    style={{ left: `${p.x}%`, top: `${p.y}%`, transform: 'translate(-50%, -50%)' }}
+                                >
+                                    {index + 1}
+                                </div>
+                            ))}
+                        </>
+                    )}
+
+                    {/* Overlay & selection */}
+                    {!activeQuad && activeArea && activeArea.width > 0 && activeArea.height > 0 && (
+                        <>
+                            {renderPlacementPreview(activeArea)}
+
+                            <div
+                                className="absolute inset-0 bg-black/40 pointer-events-none"
+                                style={{
+                                    clipPath: `polygon(
+                      0% 0%, 100% 0%, 100% 100%, 0% 100%,
+                      0% ${activeArea.y}%,
+                      ${activeArea.x}% ${activeArea.y}%,
+                      ${activeArea.x}% ${activeArea.y + activeArea.height}%,
+                      ${activeArea.x + activeArea.width}% ${activeArea.y + activeArea.height}%,
+                      ${activeArea.x + activeArea.width}% ${activeArea.y}%,
+                      0% ${activeArea.y}%
+                    )`,
+                                }}
+                            />
+
+                            <div
+                                className="absolute border-2 border-blue-500 pointer-events-none"
+                                style={{
+                                    left: `${activeArea.x}%`,
+                                    top: `${activeArea.y}%`,
+                                    width: `${activeArea.width}%`,
+                                    height: `${activeArea.height}%`,
+                                    boxShadow: '0 0 0 1px rgba(59, 130, 246, 0.5)',
+                                }}
+                            >
+                                <div className="absolute inset-1 border border-dashed border-blue-300 pointer-events-none" />
+                            </div>
+
+                            {/* Corner handles */}
+                            {['tl', 'tr', 'bl', 'br'].map((corner) => {
+                                const isLeft = corner.includes('l');
+                                const isTop = corner.includes('t');
+                                return (
+                                    <div
+                                        key={corner}
+                                        className="absolute w-3 h-3 bg-white border-2 border-blue-500 rounded-sm pointer-events-none"
+                                        style={{
+                                            left: `${isLeft ? activeArea.x : activeArea.x + activeArea.width}%`,
+                                            top: `${isTop ? activeArea.y : activeArea.y + activeArea.height}%`,
+                                            transform: 'translate(-50%, -50%)',
+                                        }}
+                                    />
+                                );
+                            })}
+
+                            {/* Edge handles */}
+                            {(['t', 'r', 'b', 'l'] as Edge[]).map((edge) => {
+                                const vertical = edge === 't' || edge === 'b';
+                                return (
+                                    <div
+                                        key={edge}
+                                        className={`absolute bg-white border-2 border-blue-500 rounded-sm pointer-events-none ${vertical ? 'w-4 h-2' : 'w-2 h-4'}`}
+                                        style={{
+                                            left: `${edge === 'l' ? activeArea.x : edge === 'r' ? activeArea.x + activeArea.width : activeArea.x + activeArea.width / 2}%`,
+                                            top: `${edge === 't' ? activeArea.y : edge === 'b' ? activeArea.y + activeArea.height : activeArea.y + activeArea.height / 2}%`,
+                                            transform: 'translate(-50%, -50%)',
+                                        }}
+                                    />
+                                );
+                            })}
+
+                            {/* Center crosshair */}
+                            <div
+                                className="absolute w-6 h-6 pointer-events-none flex items-center justify-center"
+                                style={{
+                                    left: `${activeArea.x + activeArea.width / 2}%`,
+                                    top: `${activeArea.y + activeArea.height / 2}%`,
+                                    transform: 'translate(-50%, -50%)',
+                                }}
+                            >
+                                <div className="w-4 h-[2px] bg-blue-500/60 absolute" />
+                                <div className="h-4 w-[2px] bg-blue-500/60 absolute" />
+                            </div>
+                        </>
+                    )}
+
+                    {/* Snap lines */}
+                    {snapLines.x.map(x => (
+                        <div key={`x${x}`} className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none" style={{ left: `${x}%` }} />
+                    ))}
+                    {snapLines.y.map(y => (
+                        <div key={`y${y}`} className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none" style={{ top: `${y}%` }} />
+                    ))}
+                </div>
             </div>
         </div>
     );
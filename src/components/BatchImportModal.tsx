@@ -0,0 +1,179 @@
+import { useState, useRef, useEffect } from 'react';
+import { FileSpreadsheet, X, Upload, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { QRISImage } from '../types';
+import { BatchParseResult, createImagesFromRows, readBatchRows } from '../lib/batchImport';
+
+interface BatchImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onImport: (images: QRISImage[]) => void;
+}
+
+function BatchImportModal({ isOpen, onClose, onImport }: BatchImportModalProps) {
+    const [text, setText] = useState('');
+    const [result, setResult] = useState<BatchParseResult | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setText('');
+            setResult(null);
+        }
+    }, [isOpen]);
+
+    const handleFileChoose = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            const content = event.target?.result as string;
+            setText(content);
+            setResult(readBatchRows(content));
+        };
+        reader.readAsText(file);
+
+        if (fileInputRef.current) {
+            fileInputRef.current.value = '';
+        }
+    };
+
+    const handleImport = async () => {
+        if (!result || result.rows.length === 0) return;
+        setIsGenerating(true);
+        try {
+            const images = await createImagesFromRows(result.rows);
+            onImport(images);
+            onClose();
+        } catch (error) {
+            console.error('Error generating QR images:', error);
+            alert('Gagal membuat gambar QR. Silakan coba lagi.');
+        }
+        setIsGenerating(false);
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto">
+            <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+            <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-2xl mx-4 my-8 z-10">
+                <div className="flex items-center justify-between p-6 border-b border-slate-200">
+                    <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-3">
+                        <FileSpreadsheet className="w-6 h-6 text-slate-600" />
+                        Import Payload QRIS
+                    </h2>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-slate-500" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 max-h-[calc(100vh-200px)] overflow-y-auto">
+                    <p className="text-sm text-slate-500">
+                        Tempel isi CSV/TSV atau daftar payload (satu per baris). Kolom payload dideteksi otomatis;
+                        kolom lain seperti <span className="font-mono">label</span> atau <span className="font-mono">nama</span> dipakai sebagai label.
+                    </p>
+
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+                        >
+                            <Upload className="w-3.5 h-3.5" />
+                            Pilih File CSV/TSV
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+                            onChange={handleFileChoose}
+                            className="hidden"
+                        />
+                    </div>
+
+                    <textarea
+                        value={text}
+                        onChange={(e) => {
+                            setText(e.target.value);
+                            setResult(null);
+                        }}
+                        rows={8}
+                        placeholder={'payload,label\n00020101021126...6304ABCD,Cabang Utama'}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+
+                    <button
+                        onClick={() => setResult(readBatchRows(text))}
+                        disabled={!text.trim()}
+                        className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-800 transition-colors text-sm font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        Periksa
+                    </button>
+
+                    {result && (
+                        <div className="space-y-3">
+                            <div className="flex items-center gap-4 text-sm">
+                                <span className="flex items-center gap-1.5 text-emerald-600 font-medium">
+                                    <CheckCircle className="w-4 h-4" />
+                                    {result.rows.length} baris valid
+                                </span>
+                                {result.rejected.length > 0 && (
+                                    <span className="flex items-center gap-1.5 text-red-600 font-medium">
+                                        <AlertCircle className="w-4 h-4" />
+                                        {result.rejected.length} baris ditolak
+                                    </span>
+                                )}
+                            </div>
+
+                            {result.rejected.length > 0 && (
+                                <div className="border border-red-200 rounded-lg overflow-hidden">
+                                    <table className="w-full text-xs">
+                                        <thead className="bg-red-50 text-red-700">
+                                            <tr>
+                                                <th className="text-left px-3 py-2 w-16">Baris</th>
+                                                <th className="text-left px-3 py-2">Alasan</th>
+                                                <th className="text-left px-3 py-2">Payload</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {result.rejected.map(row => (
+                                                <tr key={row.line} className="border-t border-red-100">
+                                                    <td className="px-3 py-1.5 font-mono text-slate-600">{row.line}</td>
+                                                    <td className="px-3 py-1.5 text-red-700">{row.reason}</td>
+                                                    <td className="px-3 py-1.5 font-mono text-slate-500 truncate max-w-[16rem]" title={row.payload}>
+                                                        {row.payload || '—'}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-6 border-t border-slate-200 flex items-center justify-end gap-3">
+                    <button
+                        onClick={onClose}
+                        className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors font-medium"
+                    >
+                        Tutup
+                    </button>
+                    <button
+                        onClick={handleImport}
+                        disabled={!result || result.rows.length === 0 || isGenerating}
+                        className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed shadow-md"
+                    >
+                        {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileSpreadsheet className="w-4 h-4" />}
+                        Import {result?.rows.length ?? 0} QRIS
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default BatchImportModal;
@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import { Crop, X, Check, Maximize } from 'lucide-react';
+import AreaSelector, { AreaConfig } from './AreaSelector';
+
+interface CropModalProps {
+    isOpen: boolean;
+    source: string;
+    crop: AreaConfig | undefined;
+    onClose: () => void;
+    onSave: (crop: AreaConfig | undefined) => void;
+}
+
+const FULL_IMAGE: AreaConfig = { x: 0, y: 0, width: 100, height: 100 };
+
+function CropModal({ isOpen, source, crop, onClose, onSave }: CropModalProps) {
+    const [draft, setDraft] = useState<AreaConfig | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(crop ?? FULL_IMAGE);
+        }
+    }, [isOpen, crop]);
+
+    if (!isOpen) return null;
+
+    const isFullImage = !draft || (draft.x === 0 && draft.y === 0 && draft.width === 100 && draft.height === 100);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto">
+            <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+            <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-xl mx-4 my-8 z-10">
+                <div className="flex items-center justify-between p-5 border-b border-slate-200">
+                    <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <Crop className="w-5 h-5 text-slate-600" />
+                        Potong QRIS
+                    </h2>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-slate-500" />
+                    </button>
+                </div>
+
+                <div className="p-5 max-h-[calc(100vh-200px)] overflow-y-auto">
+                    <p className="text-sm text-slate-500 mb-3">
+                        Sesuaikan kotak agar mencakup seluruh kode QR beserta sedikit ruang putih di sekelilingnya.
+                    </p>
+                    <AreaSelector
+                        frameImage={source}
+                        areaConfig={draft}
+                        onAreaChange={setDraft}
+                    />
+                </div>
+
+                <div className="p-5 border-t border-slate-200 flex items-center justify-between">
+                    <button
+                        onClick={() => setDraft(FULL_IMAGE)}
+                        disabled={isFullImage}
+                        className="px-3 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors text-sm font-medium flex items-center gap-1.5 disabled:opacity-40"
+                    >
+                        <Maximize className="w-4 h-4" />
+                        Gambar penuh
+                    </button>
+                    <button
+                        onClick={() => onSave(isFullImage ? undefined : draft ?? undefined)}
+                        className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2"
+                    >
+                        <Check className="w-4 h-4" />
+                        Terapkan
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default CropModal;
@@ -0,0 +1,89 @@
+import { ExportSettings, IMAGE_FORMATS, ImageFormat, PdfImageMode } from '../lib/exportFormat';
+import { DEFAULT_FILE_NAME_PATTERN, FILE_NAME_TOKENS } from '../lib/cardFileNames';
+
+interface ExportOptionsProps {
+    settings: ExportSettings;
+    fileNamePattern: string;
+    onChange: (settings: ExportSettings) => void;
+    onFileNamePatternChange: (pattern: string) => void;
+}
+
+const inputClass = 'w-full px-2.5 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function ExportOptions({ settings, fileNamePattern, onChange, onFileNamePatternChange }: ExportOptionsProps) {
+    const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+    // PNG is lossless; quality only matters for lossy image files or JPEG inside the PDF
+    const usesQuality = settings.format !== 'png' || settings.pdfImages === 'jpeg';
+
+    return (
+        <div className="p-4 bg-slate-50 rounded-xl border border-slate-200 mb-6 grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Format gambar (ZIP)</label>
+                <select
+                    value={settings.format}
+                    onChange={(e) => update({ format: e.target.value as ImageFormat })}
+                    className={inputClass}
+                >
+                    {IMAGE_FORMATS.map(format => (
+                        <option key={format.value} value={format.value}>{format.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Gambar di PDF</label>
+                <select
+                    value={settings.pdfImages}
+                    onChange={(e) => update({ pdfImages: e.target.value as PdfImageMode })}
+                    className={inputClass}
+                >
+                    <option value="png">PNG (lossless)</option>
+                    <option value="jpeg">JPEG (file kecil)</option>
+                </select>
+            </div>
+
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">
+                    Kualitas {usesQuality ? `${Math.round(settings.quality * 100)}%` : ''}
+                </label>
+                <input
+                    type="range"
+                    min={0.5}
+                    max={1}
+                    step={0.01}
+                    disabled={!usesQuality}
+                    value={settings.quality}
+                    onChange={(e) => update({ quality: Number(e.target.value) })}
+                    className="w-full mt-2 disabled:opacity-40"
+                />
+            </div>
+
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">DPI</label>
+                <input
+                    type="number"
+                    min={72}
+                    max={2400}
+                    step={1}
+                    value={settings.dpi}
+                    onChange={(e) => update({ dpi: Math.max(1, Number(e.target.value) || 0) })}
+                    className={inputClass}
+                    title="Resolusi yang dicatat di file PNG dan JPEG"
+                />
+            </div>
+
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Pola nama file</label>
+                <input
+                    value={fileNamePattern}
+                    onChange={(e) => onFileNamePatternChange(e.target.value)}
+                    placeholder={DEFAULT_FILE_NAME_PATTERN}
+                    title={FILE_NAME_TOKENS.map(t => `${t.token} = ${t.label}`).join('\n')}
+                    className={`${inputClass} font-mono`}
+                />
+            </div>
+        </div>
+    );
+}
+
+export default ExportOptions;
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { Type, X, Check } from 'lucide-react';
+import { QRISImage } from '../types';
+import { TEXT_SOURCES, TextField, resolveTextValue } from '../lib/textFields';
+
+interface FieldValuesModalProps {
+    isOpen: boolean;
+    image: QRISImage | undefined;
+    textFields: TextField[];
+    onClose: () => void;
+    onSave: (values: Record<string, string>) => void;
+}
+
+function FieldValuesModal({ isOpen, image, textFields, onClose, onSave }: FieldValuesModalProps) {
+    const [values, setValues] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        if (isOpen) {
+            setValues(image?.fieldValues ?? {});
+        }
+    }, [isOpen, image]);
+
+    if (!isOpen || !image) return null;
+
+    const handleSave = () => {
+        // Drop empty entries so the field falls back to the payload value again
+        const cleaned = Object.fromEntries(Object.entries(values).filter(([, v]) => v.trim() !== ''));
+        onSave(cleaned);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+            <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-md mx-4 z-10">
+                <div className="flex items-center justify-between p-5 border-b border-slate-200">
+                    <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <Type className="w-5 h-5 text-slate-600" />
+                        Teks Kartu
+                    </h2>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-slate-500" />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-3">
+                    {textFields.map(field => {
+                        const derived = resolveTextValue(field, { ...image, fieldValues: undefined });
+                        const sourceLabel = TEXT_SOURCES.find(src => src.value === field.source)?.label;
+                        return (
+                            <div key={field.id}>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">
+                                    {field.name}
+                                    <span className="text-xs font-normal text-slate-400 ml-1.5">({sourceLabel})</span>
+                                </label>
+                                <input
+                                    value={values[field.id] ?? ''}
+                                    onChange={(e) => setValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                                    placeholder={derived || 'Kosong'}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                        );
+                    })}
+                    <p className="text-xs text-slate-400">Biarkan kosong untuk memakai nilai dari QRIS.</p>
+                </div>
+
+                <div className="p-5 border-t border-slate-200 flex justify-end">
+                    <button
+                        onClick={handleSave}
+                        className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2"
+                    >
+                        <Check className="w-4 h-4" />
+                        Simpan
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default FieldValuesModal;
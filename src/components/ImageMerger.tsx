@@ -1,99 +1,180 @@
-import { useEffect, useRef } from 'react';
-import { AreaConfig } from './AreaSelector';
-
-interface QRISImage {
-  id: string;
-  file: File;
-  preview: string;
-}
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, Play, X } from 'lucide-react';
+import { MergedCard, QRISImage } from '../types';
+import { expandCopies, getEffectivePayload } from '../lib/qrisImage';
+import { TextField, resolveTextValue } from '../lib/textFields';
+import { FillMode, QrArea, groupIntoCards } from '../lib/templates';
+import { Placement } from '../lib/placement';
+import { CardJob, MergeResponse } from '../lib/merge';
+import { startMerge } from '../lib/mergeRunner';
 
 interface ImageMergerProps {
   frameImage: string;
   qrisImages: QRISImage[];
-  areaConfig: AreaConfig;
-  onMergedImagesReady: (images: string[]) => void;
+  areas: QrArea[];
+  fillMode: FillMode;
+  textFields: TextField[];
+  placement: Placement;
+  regenerateQr: boolean;
+  onMergedImagesReady: (images: MergedCard[]) => void;
 }
 
-function ImageMerger({ frameImage, qrisImages, areaConfig, onMergedImagesReady }: ImageMergerProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-
+const buildCardJobs = (
+  qrisImages: QRISImage[],
+  areas: QrArea[],
+  fillMode: FillMode,
+  textFields: TextField[],
+  regenerateQr: boolean
+): CardJob[] =>
+  groupIntoCards(expandCopies(qrisImages), areas.length, fillMode).map(cardImages => ({
+    id: cardImages.map(img => img.id).join('+'),
+    imageIds: cardImages.map(img => img.id),
+    slots: cardImages.map(img => {
+      // A converted dynamic payload has no screenshot to paste, so it is always regenerated
+      const payload = getEffectivePayload(img) ?? null;
+      const regenerate = !!payload && (regenerateQr || !!img.dynamicAmount);
+      return { imageUrl: regenerate ? null : img.preview, payload, ecLevel: img.ecLevel ?? 'M' };
+    }),
+    // Text regions are fed by the upload in their slot
+    texts: textFields.map(field => {
+      const slot = Math.max(0, areas.findIndex(a => a.id === field.slotId));
+      return resolveTextValue(field, cardImages[slot] ?? cardImages[0]);
+    }),
+  }));
+
+function ImageMerger({ frameImage, qrisImages, areas, fillMode, textFields, placement, regenerateQr, onMergedImagesReady }: ImageMergerProps) {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  // Cards still missing after the user stopped the batch; bumping `resumeCount` renders them
+  const [stoppedRemaining, setStoppedRemaining] = useState<number | null>(null);
+  const [resumeCount, setResumeCount] = useState(0);
+  const cancelRef = useRef<(() => void) | null>(null);
+  // Rendered cards by cache key; a card is only rendered again when its key changes
+  const cacheRef = useRef(new Map<string, MergedCard>());
+  const onReadyRef = useRef(onMergedImagesReady);
   useEffect(() => {
-    mergeImages();
-  }, [frameImage, qrisImages, areaConfig]);
+    onReadyRef.current = onMergedImagesReady;
+  });
 
-  const mergeImages = async () => {
-    if (!canvasRef.current) return;
+  useEffect(() => {
+    setStoppedRemaining(null);
+    const cache = cacheRef.current;
+    const jobs = buildCardJobs(qrisImages, areas, fillMode, textFields, regenerateQr);
+    // The template part of the key acts as its version: any edit to frame, areas, placement or text layout changes it.
+    // The job itself captures the image revision: crop (preview URL), payload, amount, labels and field values.
+    const templateKey = JSON.stringify({ frameImage, areas, placement, textFields });
+    const keys = jobs.map(job => `${templateKey}|${JSON.stringify(job)}`);
+
+    // Drop cards whose image was removed or changed, or that belong to an older template version
+    const live = new Set(keys);
+    for (const [key, card] of cache) {
+      if (!live.has(key)) {
+        URL.revokeObjectURL(card.url);
+        cache.delete(key);
+      }
+    }
 
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    // Always in list order, so cards keep their place while others re-render
+    const emit = () => onReadyRef.current(keys.flatMap(key => cache.get(key) ?? []));
+    emit();
 
-    const mergedResults: string[] = [];
+    // Copies share a key and are rendered once
+    const pending = keys.flatMap((key, index) => (cache.has(key) || keys.indexOf(key) !== index ? [] : [index]));
+    if (pending.length === 0) {
+      setProgress(null);
+      return;
+    }
 
-    const frameImg = await loadImage(frameImage);
+    let done = 0;
+    setProgress({ done: 0, total: pending.length });
 
-    // Convert percentage-based area config to actual pixel values
-    const targetArea = {
-      x: (areaConfig.x / 100) * frameImg.width,
-      y: (areaConfig.y / 100) * frameImg.height,
-      width: (areaConfig.width / 100) * frameImg.width,
-      height: (areaConfig.height / 100) * frameImg.height,
+    const handleMessage = (message: MergeResponse) => {
+      if (message.type === 'done') {
+        setProgress(null);
+        cancelRef.current = null;
+        return;
+      }
+      done++;
+      setProgress({ done, total: pending.length });
+      if (message.type === 'error') {
+        console.error('Error merging image:', message.message);
+        return;
+      }
+      cache.set(keys[pending[message.index]], { ...message.card, url: URL.createObjectURL(message.card.blob) });
+      // Stream finished cards so the print layout fills in as the batch progresses
+      emit();
     };
 
-    for (const qrisImage of qrisImages) {
-      try {
-        const qrisImg = await loadImage(qrisImage.preview);
-
-        canvas.width = frameImg.width;
-        canvas.height = frameImg.height;
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-        // Draw the frame
-        ctx.drawImage(frameImg, 0, 0);
-
-        // Calculate QRIS dimensions to fill the target area while maintaining aspect ratio
-        const qrisAspect = qrisImg.width / qrisImg.height;
-        const targetAspect = targetArea.width / targetArea.height;
-
-        let drawWidth: number, drawHeight: number, drawX: number, drawY: number;
-
-        if (qrisAspect > targetAspect) {
-          // QRIS is wider proportionally - fit to width
-          drawWidth = targetArea.width;
-          drawHeight = drawWidth / qrisAspect;
-          drawX = targetArea.x;
-          drawY = targetArea.y + (targetArea.height - drawHeight) / 2;
-        } else {
-          // QRIS is taller proportionally - fit to height
-          drawHeight = targetArea.height;
-          drawWidth = drawHeight * qrisAspect;
-          drawX = targetArea.x + (targetArea.width - drawWidth) / 2;
-          drawY = targetArea.y;
-        }
-
-        ctx.drawImage(qrisImg, drawX, drawY, drawWidth, drawHeight);
-
-        const mergedDataUrl = canvas.toDataURL('image/png', 1.0);
-        mergedResults.push(mergedDataUrl);
-      } catch (error) {
-        console.error('Error merging image:', error);
-      }
-    }
+    const cancel = startMerge(
+      { frameUrl: frameImage, settings: { areas, placement, textFields }, cards: pending.map(index => jobs[index]) },
+      handleMessage
+    );
+    cancelRef.current = cancel;
 
-    onMergedImagesReady(mergedResults);
-  };
+    return () => {
+      cancel();
+      cancelRef.current = null;
+    };
+  }, [frameImage, qrisImages, areas, fillMode, textFields, placement, regenerateQr, resumeCount]);
+
+  // Free the cached cards when the merger goes away
+  useEffect(() => {
+    const cache = cacheRef.current;
+    return () => {
+      cache.forEach(card => URL.revokeObjectURL(card.url));
+      cache.clear();
+    };
+  }, []);
 
-  const loadImage = (src: string): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.crossOrigin = 'anonymous';
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      img.src = src;
-    });
+  const handleCancel = () => {
+    cancelRef.current?.();
+    cancelRef.current = null;
+    if (progress) setStoppedRemaining(progress.total - progress.done);
+    setProgress(null);
   };
 
-  return <canvas ref={canvasRef} className="hidden" />;
+  // Finished cards stay cached, so resuming only renders the ones still missing
+  if (stoppedRemaining) {
+    return (
+      <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-4 flex items-center gap-4">
+        <p className="flex-1 text-sm text-amber-800">
+          Penggabungan dihentikan. {stoppedRemaining} kartu belum dibuat dan tidak ada di tata letak cetak.
+        </p>
+        <button
+          onClick={() => setResumeCount(prev => prev + 1)}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium flex items-center gap-1.5"
+        >
+          <Play className="w-3.5 h-3.5" />
+          Lanjutkan
+        </button>
+      </div>
+    );
+  }
+
+  if (!progress || progress.total === 0) return null;
+
+  const percent = Math.round((progress.done / progress.total) * 100);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-4 mb-4 flex items-center gap-4">
+      <Loader2 className="w-5 h-5 text-blue-600 animate-spin flex-shrink-0" />
+      <div className="flex-1">
+        <div className="flex justify-between text-sm text-slate-600 mb-1.5">
+          <span>Menggabungkan kartu...</span>
+          <span className="font-mono">{progress.done}/{progress.total}</span>
+        </div>
+        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+      <button
+        onClick={handleCancel}
+        className="px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors text-sm font-medium flex items-center gap-1.5"
+      >
+        <X className="w-3.5 h-3.5" />
+        Batal
+      </button>
+    </div>
+  );
 }
 
 export default ImageMerger;
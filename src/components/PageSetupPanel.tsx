@@ -0,0 +1,252 @@
+import { AlertTriangle } from 'lucide-react';
+import { CardSize, CutGuideStyle, Margins, Orientation, PAPER_SIZES, PageSetup, PaperId, PrintMarks, getCardGrid, getPageSize } from '../lib/pageSetup';
+
+interface PageSetupPanelProps {
+    page: PageSetup;
+    cardSize: CardSize | null;
+    marks: PrintMarks;
+    // Height / width of the merged cards, to keep a fixed size undistorted
+    frameAspect: number | null;
+    onChange: (page: PageSetup) => void;
+    onCardSizeChange: (cardSize: CardSize | null) => void;
+    onMarksChange: (marks: PrintMarks) => void;
+}
+
+const DEFAULT_CARD_SIZE: CardSize = { width: 100, height: 150 };
+
+const MARGIN_SIDES: { key: keyof Margins; label: string }[] = [
+    { key: 'top', label: 'Atas' },
+    { key: 'right', label: 'Kanan' },
+    { key: 'bottom', label: 'Bawah' },
+    { key: 'left', label: 'Kiri' },
+];
+
+const inputClass = 'w-full px-2.5 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function PageSetupPanel({ page, cardSize, marks, frameAspect, onChange, onCardSizeChange, onMarksChange }: PageSetupPanelProps) {
+    const update = (patch: Partial<PageSetup>) => onChange({ ...page, ...patch });
+    const updateMarks = (patch: Partial<PrintMarks>) => onMarksChange({ ...marks, ...patch });
+    const { width, height } = getPageSize(page);
+
+    // Empty or invalid input falls back to 0 so a half-typed number never breaks the layout
+    const toNumber = (value: string, min = 0) => Math.max(min, Number(value) || 0);
+
+    const cardGrid = cardSize ? getCardGrid(page, cardSize) : null;
+    const aspectMismatch = !!cardSize && !!frameAspect &&
+        Math.abs(cardSize.height / cardSize.width - frameAspect) / frameAspect > 0.01;
+    // Bleed of neighbouring cards would overlap in a narrower gap
+    const bleedOverlaps = marks.bleed > 0 && page.gutter < marks.bleed * 2;
+
+    return (
+        <div className="p-4 bg-slate-50 rounded-xl border border-slate-200 mb-6 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div className="col-span-2">
+                <label className="block text-xs font-medium text-slate-500 mb-1">Ukuran kertas</label>
+                <select
+                    value={page.paper}
+                    onChange={(e) => update({ paper: e.target.value as PaperId })}
+                    className={inputClass}
+                >
+                    {PAPER_SIZES.map(paper => (
+                        <option key={paper.id} value={paper.id}>{paper.label}</option>
+                    ))}
+                </select>
+                {page.paper === 'custom' && (
+                    <div className="flex items-center gap-2 mt-2">
+                        <input
+                            type="number"
+                            min={20}
+                            value={page.customWidth}
+                            onChange={(e) => update({ customWidth: toNumber(e.target.value, 1) })}
+                            className={inputClass}
+                            title="Lebar (mm)"
+                        />
+                        <span className="text-slate-400">×</span>
+                        <input
+                            type="number"
+                            min={20}
+                            value={page.customHeight}
+                            onChange={(e) => update({ customHeight: toNumber(e.target.value, 1) })}
+                            className={inputClass}
+                            title="Tinggi (mm)"
+                        />
+                        <span className="text-slate-400">mm</span>
+                    </div>
+                )}
+            </div>
+
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Orientasi</label>
+                <select
+                    value={page.orientation}
+                    onChange={(e) => update({ orientation: e.target.value as Orientation })}
+                    className={inputClass}
+                >
+                    <option value="portrait">Portrait</option>
+                    <option value="landscape">Landscape</option>
+                </select>
+                <p className="text-xs text-slate-400 mt-1">{width} × {height} mm</p>
+            </div>
+
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Baris × kolom</label>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="number"
+                        min={1}
+                        max={20}
+                        disabled={!!cardSize}
+                        value={cardGrid ? cardGrid.rows : page.rows}
+                        onChange={(e) => update({ rows: toNumber(e.target.value, 1) })}
+                        className={inputClass}
+                    />
+                    <span className="text-slate-400">×</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={20}
+                        disabled={!!cardSize}
+                        value={cardGrid ? cardGrid.cols : page.cols}
+                        onChange={(e) => update({ cols: toNumber(e.target.value, 1) })}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            {MARGIN_SIDES.map(side => (
+                <div key={side.key}>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Margin {side.label} (mm)</label>
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={page.margins[side.key]}
+                        onChange={(e) => update({ margins: { ...page.margins, [side.key]: toNumber(e.target.value) } })}
+                        className={inputClass}
+                    />
+                </div>
+            ))}
+
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Jarak antar kartu (mm)</label>
+                <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={page.gutter}
+                    onChange={(e) => update({ gutter: toNumber(e.target.value) })}
+                    className={inputClass}
+                />
+            </div>
+
+            <div className="col-span-2 md:col-span-3">
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-500 mb-1">
+                    <input
+                        type="checkbox"
+                        checked={!!cardSize}
+                        onChange={(e) => onCardSizeChange(e.target.checked
+                            ? { width: DEFAULT_CARD_SIZE.width, height: frameAspect ? Math.round(DEFAULT_CARD_SIZE.width * frameAspect * 10) / 10 : DEFAULT_CARD_SIZE.height }
+                            : null)}
+                        className="rounded"
+                    />
+                    Ukuran kartu tetap (mm), sebanyak mungkin per halaman
+                </label>
+                {cardSize && (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="number"
+                            min={1}
+                            step={0.5}
+                            value={cardSize.width}
+                            onChange={(e) => onCardSizeChange({ ...cardSize, width: toNumber(e.target.value, 1) })}
+                            className={`${inputClass} max-w-[6rem]`}
+                            title="Lebar (mm)"
+                        />
+                        <span className="text-slate-400">×</span>
+                        <input
+                            type="number"
+                            min={1}
+                            step={0.5}
+                            value={cardSize.height}
+                            onChange={(e) => onCardSizeChange({ ...cardSize, height: toNumber(e.target.value, 1) })}
+                            className={`${inputClass} max-w-[6rem]`}
+                            title="Tinggi (mm)"
+                        />
+                        <span className="text-slate-400">mm</span>
+                        {aspectMismatch && frameAspect && (
+                            <button
+                                onClick={() => onCardSizeChange({ ...cardSize, height: Math.round(cardSize.width * frameAspect * 10) / 10 })}
+                                className="px-2.5 py-1.5 bg-amber-50 text-amber-700 rounded-lg hover:bg-amber-100 transition-colors text-xs font-medium"
+                                title="Rasio ukuran berbeda dengan frame, kartu akan tertarik"
+                            >
+                                Samakan rasio frame
+                            </button>
+                        )}
+                    </div>
+                )}
+                {cardGrid && cardGrid.rows * cardGrid.cols === 0 && (
+                    <p className="text-xs text-amber-700 mt-1.5 flex items-center gap-1.5">
+                        <AlertTriangle className="w-3.5 h-3.5" />
+                        Kartu tidak muat pada kertas dan margin ini.
+                    </p>
+                )}
+            </div>
+
+            <div className="col-span-2 md:col-span-4 pt-3 border-t border-slate-200 grid grid-cols-2 md:grid-cols-4 gap-4">
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-500 self-end pb-2">
+                    <input
+                        type="checkbox"
+                        checked={marks.cropMarks}
+                        onChange={(e) => updateMarks({ cropMarks: e.target.checked })}
+                        className="rounded"
+                    />
+                    Tanda potong di sudut
+                </label>
+
+                <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Bleed (mm)</label>
+                    <input
+                        type="number"
+                        min={0}
+                        max={10}
+                        step={0.5}
+                        value={marks.bleed}
+                        onChange={(e) => updateMarks({ bleed: toNumber(e.target.value) })}
+                        className={inputClass}
+                    />
+                </div>
+
+                <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Garis potong</label>
+                    <select
+                        value={marks.cutGuides}
+                        onChange={(e) => updateMarks({ cutGuides: e.target.value as CutGuideStyle })}
+                        className={inputClass}
+                    >
+                        <option value="none">Tidak ada</option>
+                        <option value="hairline">Garis tipis</option>
+                        <option value="dashed">Putus-putus</option>
+                    </select>
+                </div>
+
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-500 self-end pb-2">
+                    <input
+                        type="checkbox"
+                        checked={marks.slug}
+                        onChange={(e) => updateMarks({ slug: e.target.checked })}
+                        className="rounded"
+                    />
+                    Info template & halaman di margin
+                </label>
+
+                {bleedOverlaps && (
+                    <p className="col-span-2 md:col-span-4 text-xs text-amber-700 flex items-center gap-1.5">
+                        <AlertTriangle className="w-3.5 h-3.5" />
+                        Jarak antar kartu kurang dari 2 × bleed ({marks.bleed * 2} mm), bleed kartu yang berdekatan akan saling menimpa.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default PageSetupPanel;
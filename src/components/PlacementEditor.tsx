@@ -0,0 +1,97 @@
+import { RotateCw } from 'lucide-react';
+import { ANCHORS, FIT_MODES, FitMode, Placement, ROTATIONS } from '../lib/placement';
+
+interface PlacementEditorProps {
+    placement: Placement;
+    onChange: (placement: Placement) => void;
+}
+
+function PlacementEditor({ placement, onChange }: PlacementEditorProps) {
+    const update = (patch: Partial<Placement>) => onChange({ ...placement, ...patch });
+
+    return (
+        <div className="mt-3 p-3 bg-slate-50 rounded-lg border border-slate-200 grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Penyesuaian ukuran</label>
+                <select
+                    value={placement.fit}
+                    onChange={(e) => update({ fit: e.target.value as FitMode })}
+                    className="w-full px-2.5 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {FIT_MODES.map(mode => (
+                        <option key={mode.value} value={mode.value}>{mode.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Jarak dalam: {placement.padding}%</label>
+                <input
+                    type="range"
+                    min={0}
+                    max={25}
+                    step={0.5}
+                    value={placement.padding}
+                    onChange={(e) => update({ padding: Number(e.target.value) })}
+                    className="w-full"
+                />
+            </div>
+
+            <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Posisi</label>
+                <div className="grid grid-cols-3 gap-1 w-20">
+                    {ANCHORS.map(anchor => (
+                        <button
+                            key={anchor}
+                            onClick={() => update({ anchor })}
+                            className={`h-5 rounded border transition-colors ${placement.anchor === anchor
+                                ? 'bg-blue-600 border-blue-600'
+                                : 'bg-white border-slate-300 hover:bg-slate-100'
+                                }`}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <div>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Rotasi</label>
+                    <div className="flex gap-1">
+                        {ROTATIONS.map(rotation => (
+                            <button
+                                key={rotation}
+                                onClick={() => update({ rotation })}
+                                className={`px-2 py-1 rounded-lg text-xs font-medium flex items-center gap-1 transition-colors ${placement.rotation === rotation
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-white text-slate-600 border border-slate-300 hover:bg-slate-100'
+                                    }`}
+                            >
+                                <RotateCw className="w-3 h-3" />
+                                {rotation}°
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <input
+                        type="checkbox"
+                        checked={placement.background !== null}
+                        onChange={(e) => update({ background: e.target.checked ? '#ffffff' : null })}
+                        className="rounded"
+                    />
+                    Latar di belakang QR
+                    {placement.background !== null && (
+                        <input
+                            type="color"
+                            value={placement.background}
+                            onChange={(e) => update({ background: e.target.value })}
+                            className="w-7 h-6 border border-slate-300 rounded cursor-pointer"
+                        />
+                    )}
+                </label>
+            </div>
+        </div>
+    );
+}
+
+export default PlacementEditor;
@@ -1,98 +1,134 @@
-import { Download, FileText, Printer } from 'lucide-react';
+import { AlertTriangle, Download, FileArchive, FileText, Printer, ScanLine, Settings2 } from 'lucide-react';
 import { useRef, useState } from 'react';
 import jsPDF from 'jspdf';
+import { MergedCard, QRISImage } from '../types';
+import { createQrMatrix, drawQrToPdf, rotateQrMatrix } from '../lib/qrRender';
+import { CardSize, PAPER_SIZES, PageSetup, PrintMarks, fitCardInCell, getGridCells, getPageSize } from '../lib/pageSetup';
+import { drawCropMarks, drawCutGuides, drawSlug, extendBleed } from '../lib/printMarks';
+import { MIN_MODULE_MM, ScanIssue, getScanIssues } from '../lib/scanCheck';
+import { DEFAULT_FILE_NAME_PATTERN, FILE_NAME_PATTERN_KEY, buildCardFileNames } from '../lib/cardFileNames';
+import { createZip } from '../lib/zip';
+import { downloadBlob } from '../lib/download';
+import { setLocalItem } from '../lib/assetStore';
+import { EXPORT_SETTINGS_KEY, ExportSettings, IMAGE_FORMATS, encodeCard, loadExportSettings, reencodeImage } from '../lib/exportFormat';
+import ExportOptions from './ExportOptions';
 
 interface PrintLayoutProps {
-  mergedImages: string[];
-  imagesPerPage: number;
+  mergedImages: MergedCard[];
+  // Uploads behind the cards, for file names
+  images: QRISImage[];
+  page: PageSetup;
+  cardSize: CardSize | null;
+  marks: PrintMarks;
+  templateName: string;
 }
 
-function PrintLayout({ mergedImages, imagesPerPage }: PrintLayoutProps) {
+function PrintLayout({ mergedImages, images, page, cardSize, marks, templateName }: PrintLayoutProps) {
   const printAreaRef = useRef<HTMLDivElement>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [fileNamePattern, setFileNamePattern] = useState(
+    () => localStorage.getItem(FILE_NAME_PATTERN_KEY) ?? DEFAULT_FILE_NAME_PATTERN
+  );
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+  const [showExportOptions, setShowExportOptions] = useState(false);
+
+  const pageSize = getPageSize(page);
+  const cells = getGridCells(page, cardSize);
+  const cardsPerPage = cells.length;
 
-  const pages: string[][] = [];
-  for (let i = 0; i < mergedImages.length; i += imagesPerPage) {
-    pages.push(mergedImages.slice(i, i + imagesPerPage));
+  const pages: MergedCard[][] = [];
+  // A fixed card size larger than the printable area leaves no cells at all
+  for (let i = 0; cardsPerPage > 0 && i < mergedImages.length; i += cardsPerPage) {
+    pages.push(mergedImages.slice(i, i + cardsPerPage));
   }
 
-  const getGridClass = () => {
-    switch (imagesPerPage) {
-      case 1:
-        return 'grid-cols-1';
-      case 2:
-        return 'grid-cols-2';
-      case 4:
-        return 'grid-cols-2';
-      case 6:
-        return 'grid-cols-3';
-      default:
-        return 'grid-cols-2';
-    }
+  // A fixed card size is printed exactly as set; otherwise the card is scaled into its cell
+  const placeCard = (card: MergedCard, cellIndex: number) =>
+    cardSize ? cells[cellIndex] : fitCardInCell(card.width, card.height, cells[cellIndex]);
+
+  // Scan problems at the size each card is actually printed
+  const scanIssues = new Map<string, ScanIssue[]>();
+  pages.forEach(sheet => sheet.forEach((card, i) => {
+    const issues = getScanIssues(card, placeCard(card, i).width);
+    if (issues.length > 0) scanIssues.set(card.id, issues);
+  }));
+  const failingCount = mergedImages.filter(card => scanIssues.has(card.id)).length;
+
+  // Export goes ahead only when every card scans, or the user accepts the risk
+  const confirmScannable = (cards: MergedCard[], output = 'PDF') => {
+    const failing = cards.filter(card => scanIssues.has(card.id)).length;
+    return failing === 0 || window.confirm(
+      `${failing} kartu gagal verifikasi scan (ditandai merah). QR pada kartu tersebut mungkin tidak terbaca saat dicetak.\n\nTetap buat ${output}?`
+    );
   };
 
-  // Determine orientation based on images per page
-  const getOrientation = (): 'portrait' | 'landscape' => {
-    return imagesPerPage >= 2 ? 'landscape' : 'portrait';
+  // Raster card first (grown by the bleed past its trim edge); a regenerated QR is then laid over it as vector paths
+  const addCardToPdf = async (pdf: jsPDF, card: MergedCard, x: number, y: number, drawWidth: number, drawHeight: number) => {
+    const scale = drawWidth / card.width;
+    const { bleed } = marks;
+    const source = bleed > 0 ? await extendBleed(card.blob, bleed / scale) : card.blob;
+    const asJpeg = exportSettings.pdfImages === 'jpeg';
+    const image = asJpeg || !(source instanceof Blob)
+      ? await reencodeImage(source, asJpeg ? 'image/jpeg' : 'image/png', exportSettings.quality)
+      : source;
+    pdf.addImage(
+      new Uint8Array(await image.arrayBuffer()),
+      asJpeg ? 'JPEG' : 'PNG',
+      x - bleed,
+      y - bleed,
+      drawWidth + bleed * 2,
+      drawHeight + bleed * 2
+    );
+
+    for (const qr of card.vectorQrs) {
+      drawQrToPdf(
+        pdf,
+        rotateQrMatrix(createQrMatrix(qr.payload, qr.ecLevel), qr.rotation),
+        x + qr.x * scale,
+        y + qr.y * scale,
+        qr.size * scale
+      );
+    }
   };
 
-  const loadImage = (src: string): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.crossOrigin = 'anonymous';
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      img.src = src;
+  // Page numbers in the slug are counted over every page, also when a single page is downloaded
+  const buildPdf = async (sheets: MergedCard[][], firstPageIndex = 0) => {
+    const format: [number, number] = [pageSize.width, pageSize.height];
+    const pdf = new jsPDF({
+      orientation: page.orientation,
+      unit: 'mm',
+      format,
     });
-  };
-
-  const downloadPageAsPDF = async (pageImages: string[], pageIndex: number) => {
-    setIsGenerating(true);
-    try {
-      const orientation = getOrientation();
-      const pdf = new jsPDF({
-        orientation,
-        unit: 'mm',
-        format: 'a4',
-      });
-
-      // A4 dimensions in mm
-      const pageWidth = orientation === 'landscape' ? 297 : 210;
-      const pageHeight = orientation === 'landscape' ? 210 : 297;
-      const padding = 3; // mm
 
-      const cols = imagesPerPage === 1 ? 1 : imagesPerPage === 2 ? 2 : imagesPerPage === 4 ? 2 : 3;
-      const rows = Math.ceil(imagesPerPage / cols);
-
-      const availableWidth = pageWidth - (padding * 2);
-      const availableHeight = pageHeight - (padding * 2);
-      const cellWidth = availableWidth / cols;
-      const cellHeight = availableHeight / rows;
-
-      for (let i = 0; i < pageImages.length; i++) {
-        const img = await loadImage(pageImages[i]);
-
-        const col = i % cols;
-        const row = Math.floor(i / cols);
-
-        const imgAspect = img.width / img.height;
-        const cellAspect = cellWidth / cellHeight;
-
-        let drawWidth: number, drawHeight: number;
-        if (imgAspect > cellAspect) {
-          drawWidth = cellWidth * 0.99;
-          drawHeight = drawWidth / imgAspect;
-        } else {
-          drawHeight = cellHeight * 0.99;
-          drawWidth = drawHeight * imgAspect;
-        }
-
-        const x = padding + col * cellWidth + (cellWidth - drawWidth) / 2;
-        const y = padding + row * cellHeight + (cellHeight - drawHeight) / 2;
+    for (let pageIdx = 0; pageIdx < sheets.length; pageIdx++) {
+      if (pageIdx > 0) {
+        pdf.addPage(format, page.orientation);
+      }
 
-        pdf.addImage(pageImages[i], 'PNG', x, y, drawWidth, drawHeight);
+      const sheet = sheets[pageIdx];
+      const rects = sheet.map((card, i) => placeCard(card, i));
+      drawCutGuides(pdf, rects, pageSize.width, pageSize.height, marks.cutGuides);
+      for (let i = 0; i < sheet.length; i++) {
+        const rect = rects[i];
+        await addCardToPdf(pdf, sheet[i], rect.x, rect.y, rect.width, rect.height);
       }
+      if (marks.cropMarks) {
+        drawCropMarks(pdf, rects, marks.bleed);
+      }
+      if (marks.slug) {
+        const slug = `${templateName} — Halaman ${firstPageIndex + pageIdx + 1}/${pages.length}`;
+        drawSlug(pdf, slug, pageSize.width, pageSize.height, page.margins.bottom);
+      }
+    }
+    return pdf;
+  };
 
+  const downloadPageAsPDF = async (pageImages: MergedCard[], pageIndex: number) => {
+    if (!confirmScannable(pageImages)) return;
+    setIsGenerating(true);
+    try {
+      const pdf = await buildPdf([pageImages], pageIndex);
       pdf.save(`qris-merged-page-${pageIndex + 1}.pdf`);
     } catch (error) {
       console.error('Error generating PDF:', error);
@@ -102,59 +138,10 @@ function PrintLayout({ mergedImages, imagesPerPage }: PrintLayoutProps) {
   };
 
   const downloadAllAsPDF = async () => {
+    if (!confirmScannable(mergedImages)) return;
     setIsGenerating(true);
     try {
-      const orientation = getOrientation();
-      const pdf = new jsPDF({
-        orientation,
-        unit: 'mm',
-        format: 'a4',
-      });
-
-      const pageWidth = orientation === 'landscape' ? 297 : 210;
-      const pageHeight = orientation === 'landscape' ? 210 : 297;
-      const padding = 3;
-
-      const cols = imagesPerPage === 1 ? 1 : imagesPerPage === 2 ? 2 : imagesPerPage === 4 ? 2 : 3;
-      const rows = Math.ceil(imagesPerPage / cols);
-
-      const availableWidth = pageWidth - (padding * 2);
-      const availableHeight = pageHeight - (padding * 2);
-      const cellWidth = availableWidth / cols;
-      const cellHeight = availableHeight / rows;
-
-      for (let pageIdx = 0; pageIdx < pages.length; pageIdx++) {
-        if (pageIdx > 0) {
-          pdf.addPage('a4', orientation);
-        }
-
-        const pageImages = pages[pageIdx];
-
-        for (let i = 0; i < pageImages.length; i++) {
-          const img = await loadImage(pageImages[i]);
-
-          const col = i % cols;
-          const row = Math.floor(i / cols);
-
-          const imgAspect = img.width / img.height;
-          const cellAspect = cellWidth / cellHeight;
-
-          let drawWidth: number, drawHeight: number;
-          if (imgAspect > cellAspect) {
-            drawWidth = cellWidth * 0.99;
-            drawHeight = drawWidth / imgAspect;
-          } else {
-            drawHeight = cellHeight * 0.99;
-            drawWidth = drawHeight * imgAspect;
-          }
-
-          const x = padding + col * cellWidth + (cellWidth - drawWidth) / 2;
-          const y = padding + row * cellHeight + (cellHeight - drawHeight) / 2;
-
-          pdf.addImage(pageImages[i], 'PNG', x, y, drawWidth, drawHeight);
-        }
-      }
-
+      const pdf = await buildPdf(pages);
       pdf.save('qris-merged-all.pdf');
     } catch (error) {
       console.error('Error generating PDF:', error);
@@ -163,19 +150,83 @@ function PrintLayout({ mergedImages, imagesPerPage }: PrintLayoutProps) {
     setIsGenerating(false);
   };
 
+  const handleFileNamePatternChange = (pattern: string) => {
+    setFileNamePattern(pattern);
+    try {
+      setLocalItem(FILE_NAME_PATTERN_KEY, pattern);
+    } catch (error) {
+      console.error('Error saving file name pattern:', error);
+    }
+  };
+
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    try {
+      setLocalItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving export settings:', error);
+    }
+  };
+
+  // Every card as its own image file, for sending to merchants one by one
+  const downloadAllAsZip = async () => {
+    if (!confirmScannable(mergedImages, 'ZIP')) return;
+    setIsZipping(true);
+    try {
+      // Copies of a card are the same file, so each card is zipped once
+      const cards = mergedImages.filter((card, i) => mergedImages.findIndex(c => c.id === card.id) === i);
+      const names = buildCardFileNames(cards, images, fileNamePattern);
+      const { extension } = IMAGE_FORMATS.find(f => f.value === exportSettings.format) ?? IMAGE_FORMATS[0];
+      // One at a time: every re-encode holds a full-size canvas
+      const entries = [];
+      for (let i = 0; i < cards.length; i++) {
+        entries.push({ name: `${names[i]}.${extension}`, data: await encodeCard(cards[i].blob, exportSettings) });
+      }
+      downloadBlob(createZip(entries), 'qris-merged-cards.zip');
+    } catch (error) {
+      console.error('Error generating ZIP:', error);
+      alert('Gagal membuat ZIP. Silakan coba lagi.');
+    }
+    setIsZipping(false);
+  };
+
   const handlePrint = () => {
     window.print();
   };
 
-  const orientationLabel = getOrientation() === 'landscape' ? 'Landscape' : 'Portrait';
+  const paperLabel = page.paper === 'custom'
+    ? `${pageSize.width} × ${pageSize.height} mm`
+    : PAPER_SIZES.find(p => p.id === page.paper)?.label.split(' (')[0];
+  const orientationLabel = page.orientation === 'landscape' ? 'Landscape' : 'Portrait';
+  // Percent of the sheet, so the preview keeps the exact proportions of the PDF
+  const pct = (value: number, total: number) => `${(value / total) * 100}%`;
 
   return (
     <div>
       <div className="flex flex-wrap gap-3 mb-6 justify-between items-center">
         <div className="text-sm text-slate-500">
-          Orientasi: <span className="font-medium text-slate-700">{orientationLabel}</span> • {pages.length} halaman
+          Kertas: <span className="font-medium text-slate-700">{paperLabel} {orientationLabel}</span> •{' '}
+          {cardSize ? `${cardsPerPage} kartu ${cardSize.width} × ${cardSize.height} mm` : `${page.rows} × ${page.cols}`} per halaman • {pages.length} halaman
         </div>
-        <div className="flex gap-3">
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => setShowExportOptions(prev => !prev)}
+            className={`px-4 py-2.5 rounded-lg transition-colors font-medium text-sm flex items-center gap-2 ${showExportOptions
+              ? 'bg-blue-600 text-white'
+              : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+              }`}
+          >
+            <Settings2 className="w-4 h-4" />
+            Format Ekspor
+          </button>
+          <button
+            onClick={downloadAllAsZip}
+            disabled={isZipping || mergedImages.length === 0}
+            className="px-5 py-2.5 bg-slate-700 text-white rounded-lg hover:bg-slate-800 transition-colors font-medium flex items-center gap-2 text-sm disabled:opacity-60 disabled:cursor-wait"
+          >
+            <FileArchive className="w-4 h-4" />
+            {isZipping ? 'Membuat ZIP...' : 'Download ZIP'}
+          </button>
           <button
             onClick={handlePrint}
             className="px-5 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2 text-sm"
@@ -185,7 +236,7 @@ function PrintLayout({ mergedImages, imagesPerPage }: PrintLayoutProps) {
           </button>
           <button
             onClick={downloadAllAsPDF}
-            disabled={isGenerating}
+            disabled={isGenerating || pages.length === 0}
             className="px-5 py-2.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium flex items-center gap-2 text-sm disabled:opacity-60 disabled:cursor-wait"
           >
             <FileText className="w-4 h-4" />
@@ -194,36 +245,72 @@ function PrintLayout({ mergedImages, imagesPerPage }: PrintLayoutProps) {
         </div>
       </div>
 
+      {showExportOptions && (
+        <ExportOptions
+          settings={exportSettings}
+          fileNamePattern={fileNamePattern}
+          onChange={handleExportSettingsChange}
+          onFileNamePatternChange={handleFileNamePatternChange}
+        />
+      )}
+
+      {cardsPerPage === 0 && (
+        <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl flex items-center gap-3 text-sm text-amber-800">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          Kartu {cardSize?.width} × {cardSize?.height} mm tidak muat pada kertas ini. Perkecil margin, ganti orientasi, atau pilih kertas yang lebih besar.
+        </div>
+      )}
+
+      {failingCount > 0 && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3 text-sm text-red-800">
+          <ScanLine className="w-5 h-5 flex-shrink-0" />
+          {failingCount} kartu gagal verifikasi scan: QR tidak terbaca, isinya berbeda dengan sumber, atau modul lebih kecil dari {MIN_MODULE_MM} mm pada ukuran cetak. Perbesar area QR atau ukuran kartu.
+        </div>
+      )}
+
       <div ref={printAreaRef} className="space-y-8">
         {pages.map((pageImages, pageIndex) => (
           <div key={pageIndex} className="print-page">
-            <div className={`bg-white rounded-lg shadow-md border border-slate-200 p-2 ${imagesPerPage >= 2 ? 'aspect-[297/210]' : 'aspect-[210/297]'
-              }`}>
-              <div className="flex justify-between items-center mb-4 print:hidden">
-                <h3 className="text-sm font-semibold text-slate-600">
-                  Halaman {pageIndex + 1} ({pageImages.length} gambar) — {orientationLabel}
-                </h3>
-                <button
-                  onClick={() => downloadPageAsPDF(pageImages, pageIndex)}
-                  disabled={isGenerating}
-                  className="px-3 py-1.5 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors text-xs flex items-center gap-1.5 disabled:opacity-60"
-                >
-                  <Download className="w-3.5 h-3.5" />
-                  Download PDF
-                </button>
-              </div>
+            <div className="flex justify-between items-center mb-2 print:hidden">
+              <h3 className="text-sm font-semibold text-slate-600">
+                Halaman {pageIndex + 1} ({pageImages.length} gambar) — {orientationLabel}
+                {pageImages.some(card => scanIssues.has(card.id)) && (
+                  <span className="ml-2 text-red-600">• {pageImages.filter(card => scanIssues.has(card.id)).length} gagal scan</span>
+                )}
+              </h3>
+              <button
+                onClick={() => downloadPageAsPDF(pageImages, pageIndex)}
+                disabled={isGenerating}
+                className="px-3 py-1.5 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors text-xs flex items-center gap-1.5 disabled:opacity-60"
+              >
+                <Download className="w-3.5 h-3.5" />
+                Download PDF
+              </button>
+            </div>
 
-              <div className={`grid ${getGridClass()} gap-4 h-[calc(100%-3rem)]`}>
-                {pageImages.map((img, imgIndex) => (
-                  <div key={imgIndex} className="flex items-center justify-center rounded p-1">
-                    <img
-                      src={img}
-                      alt={`Merged ${pageIndex * imagesPerPage + imgIndex + 1}`}
-                      className="max-w-full max-h-full h-auto rounded shadow object-contain"
-                    />
-                  </div>
-                ))}
-              </div>
+            <div
+              className="relative bg-white shadow-md border border-slate-200 print:shadow-none print:border-0"
+              style={{ aspectRatio: `${pageSize.width} / ${pageSize.height}` }}
+            >
+              {pageImages.map((card, imgIndex) => {
+                const rect = placeCard(card, imgIndex);
+                const issues = scanIssues.get(card.id);
+                return (
+                  <img
+                    key={`${card.id}-${imgIndex}`}
+                    src={card.url}
+                    alt={`Merged ${pageIndex * cardsPerPage + imgIndex + 1}`}
+                    title={issues?.map(issue => `Slot ${issue.slot + 1}: ${issue.message}`).join('\n')}
+                    className={`absolute ${issues ? 'outline outline-2 outline-red-500 print:outline-none' : ''}`}
+                    style={{
+                      left: pct(rect.x, pageSize.width),
+                      top: pct(rect.y, pageSize.height),
+                      width: pct(rect.width, pageSize.width),
+                      height: pct(rect.height, pageSize.height),
+                    }}
+                  />
+                );
+              })}
             </div>
           </div>
         ))}
@@ -245,7 +332,7 @@ function PrintLayout({ mergedImages, imagesPerPage }: PrintLayoutProps) {
             page-break-after: always;
           }
           @page {
-            size: ${getOrientation() === 'landscape' ? 'A4 landscape' : 'A4'};
+            size: ${pageSize.width}mm ${pageSize.height}mm;
             margin: 0;
           }
         }
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Plus, Trash2, QrCode, ChevronLeft, ChevronRight, Square, Spline } from 'lucide-react';
+import AreaSelector, { AreaGuide } from './AreaSelector';
+import { DEFAULT_AREA_CONFIG, FillMode, QrArea, createQrArea } from '../lib/templates';
+import { Placement } from '../lib/placement';
+import { quadBounds, rectToQuad } from '../lib/perspective';
+
+interface QrAreasEditorProps {
+    frameImage: string;
+    areas: QrArea[];
+    fillMode: FillMode;
+    guides: AreaGuide[];
+    placement: Placement;
+    onAreasChange: (areas: QrArea[]) => void;
+    onFillModeChange: (fillMode: FillMode) => void;
+}
+
+function QrAreasEditor({ frameImage, areas, fillMode, guides, placement, onAreasChange, onFillModeChange }: QrAreasEditorProps) {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const selectedIndex = Math.max(0, areas.findIndex(a => a.id === selectedId));
+    const selected = areas[selectedIndex] ?? null;
+
+    const handleAdd = () => {
+        // Start new slots next to the last one so they are easy to spot and drag
+        const last = areas[areas.length - 1];
+        const area = createQrArea(
+            `QRIS ${areas.length + 1}`,
+            last ? { ...last, x: Math.min(100 - last.width, last.x + 5), y: Math.min(100 - last.height, last.y + 5) } : undefined
+        );
+        onAreasChange([...areas, area]);
+        setSelectedId(area.id);
+    };
+
+    const handleRemove = (id: string) => {
+        const remaining = areas.filter(a => a.id !== id);
+        onAreasChange(remaining);
+        setSelectedId(remaining[Math.max(0, selectedIndex - 1)]?.id ?? null);
+    };
+
+    const handleMove = (offset: number) => {
+        const target = selectedIndex + offset;
+        if (target < 0 || target >= areas.length) return;
+        const next = [...areas];
+        [next[selectedIndex], next[target]] = [next[target], next[selectedIndex]];
+        onAreasChange(next);
+    };
+
+    const updateSelected = (patch: Partial<QrArea>) => {
+        if (!selected) return;
+        onAreasChange(areas.map(a => (a.id === selected.id ? { ...a, ...patch } : a)));
+    };
+
+    // Switching to four corners starts from the rectangle; switching back keeps the bounding box
+    const handleShapeChange = (perspective: boolean) => {
+        if (!selected || perspective === !!selected.quad) return;
+        updateSelected({ quad: perspective ? rectToQuad(selected) : undefined });
+    };
+
+    const otherGuides = [
+        ...areas.filter(a => a.id !== selected?.id).map(a => ({ area: a, label: a.name })),
+        ...guides,
+    ];
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+                {areas.map((area, index) => (
+                    <button
+                        key={area.id}
+                        onClick={() => setSelectedId(area.id)}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1.5 transition-colors ${index === selectedIndex
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                            }`}
+                    >
+                        <QrCode className="w-3.5 h-3.5" />
+                        {index + 1}. {area.name}
+                    </button>
+                ))}
+                <button
+                    onClick={handleAdd}
+                    className="px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+                >
+                    <Plus className="w-3.5 h-3.5" />
+                    Tambah Slot
+                </button>
+            </div>
+
+            {areas.length > 1 && (
+                <div className="flex flex-wrap items-center gap-3 mb-3 p-2.5 bg-slate-50 rounded-lg border border-slate-200">
+                    <label className="text-sm text-slate-600">Isi slot:</label>
+                    <select
+                        value={fillMode}
+                        onChange={(e) => onFillModeChange(e.target.value as FillMode)}
+                        className="px-2.5 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="sequential">Berurutan (QRIS berbeda tiap slot)</option>
+                        <option value="repeat">Ulangi QRIS yang sama di semua slot</option>
+                    </select>
+                </div>
+            )}
+
+            {selected && (
+                <div className="flex flex-wrap items-center gap-2 mb-3">
+                    <input
+                        value={selected.name}
+                        onChange={(e) => updateSelected({ name: e.target.value })}
+                        className="flex-1 min-w-[8rem] px-2.5 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="Nama slot"
+                    />
+                    <button
+                        onClick={() => handleMove(-1)}
+                        disabled={selectedIndex === 0}
+                        className="p-1.5 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 disabled:opacity-40"
+                        title="Pindah ke urutan sebelumnya"
+                    >
+                        <ChevronLeft className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => handleMove(1)}
+                        disabled={selectedIndex === areas.length - 1}
+                        className="p-1.5 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 disabled:opacity-40"
+                        title="Pindah ke urutan berikutnya"
+                    >
+                        <ChevronRight className="w-4 h-4" />
+                    </button>
+                    <div className="flex rounded-lg border border-slate-300 overflow-hidden text-sm">
+                        <button
+                            onClick={() => handleShapeChange(false)}
+                            className={`px-2.5 py-1.5 font-medium flex items-center gap-1.5 transition-colors ${!selected.quad ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                            title="Area persegi tegak"
+                        >
+                            <Square className="w-3.5 h-3.5" />
+                            Persegi
+                        </button>
+                        <button
+                            onClick={() => handleShapeChange(true)}
+                            className={`px-2.5 py-1.5 font-medium flex items-center gap-1.5 transition-colors ${selected.quad ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+                            title="Empat sudut bebas untuk mockup miring; QR ditransformasi perspektif"
+                        >
+                            <Spline className="w-3.5 h-3.5" />
+                            4 Sudut
+                        </button>
+                    </div>
+                    {areas.length > 1 && (
+                        <button
+                            onClick={() => handleRemove(selected.id)}
+                            className="px-3 py-1.5 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                            Hapus Slot
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <AreaSelector
+                frameImage={frameImage}
+                areaConfig={selected}
+                guides={otherGuides}
+                placement={placement}
+                defaultAspect={1}
+                quad={selected?.quad ?? null}
+                onQuadChange={(quad) => updateSelected({ quad, ...quadBounds(quad) })}
+                onAreaChange={(area) => {
+                    if (!area) {
+                        // Reset puts the slot back on the default area; removing it is the separate Hapus Slot action
+                        if (selected) updateSelected({ ...DEFAULT_AREA_CONFIG, quad: undefined });
+                    } else if (selected) {
+                        updateSelected(area);
+                    } else {
+                        onAreasChange([createQrArea('QRIS 1', area)]);
+                    }
+                }}
+            />
+        </div>
+    );
+}
+
+export default QrAreasEditor;
@@ -1,86 +1,291 @@
 import { useState, useRef, useEffect } from 'react';
-import { Settings, X, Upload, Download, Save, Trash2, CheckCircle, AlertCircle } from 'lucide-react';
-import AreaSelector, { AreaConfig } from './AreaSelector';
-
-export interface SavedSettings {
-    frameImage: string;
-    areaConfig: AreaConfig;
-}
+import { Settings, X, Upload, Download, Save, Trash2, CheckCircle, AlertCircle, Plus, Copy, Star, PackageOpen, Package, Wand2, Loader2 } from 'lucide-react';
+import { AreaConfig } from './AreaSelector';
+import QrAreasEditor from './QrAreasEditor';
+import TextFieldsEditor from './TextFieldsEditor';
+import TemplateImportModal from './TemplateImportModal';
+import PlacementEditor from './PlacementEditor';
+import { TextField } from '../lib/textFields';
+import { DEFAULT_PLACEMENT, Placement } from '../lib/placement';
+import { DetectedPlaceholder, KEY_COLOR, detectPlaceholder } from '../lib/areaDetection';
+import { isQuad } from '../lib/perspective';
+import { downloadBlob } from '../lib/download';
+import {
+    ImportedTemplate,
+    createTemplatePackage,
+    isTemplatePackage,
+    packageFileName,
+    readTemplatePackage,
+} from '../lib/templatePackage';
+import {
+    FillMode,
+    DEFAULT_PRINT_PREFERENCES,
+    FrameTemplate,
+    QrArea,
+    TemplateLibrary,
+    createQrArea,
+    createTemplate,
+    copyTemplateFrame,
+    deleteTemplateFrame,
+    duplicateTemplate,
+    isTemplateReady,
+    saveLibrary,
+    storeTemplateFrame,
+} from '../lib/templates';
 
 interface SettingsModalProps {
     isOpen: boolean;
     onClose: () => void;
-    savedSettings: SavedSettings | null;
-    onSave: (settings: SavedSettings) => void;
+    library: TemplateLibrary;
+    onLibraryChange: (library: TemplateLibrary) => void;
 }
 
-const SETTINGS_KEY = 'qris-merger-settings';
-
-const DEFAULT_AREA_CONFIG: AreaConfig = {
-    x: 7.942652282055567,
-    y: 11.82706105215818,
-    width: 83.94940973589715,
-    height: 82.91270774948443,
+const isAreaConfig = (value: unknown): value is AreaConfig => {
+    const area = value as AreaConfig | null;
+    return !!area &&
+        typeof area.x === 'number' &&
+        typeof area.y === 'number' &&
+        typeof area.width === 'number' &&
+        typeof area.height === 'number';
 };
 
-function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModalProps) {
+function SettingsModal({ isOpen, onClose, library, onLibraryChange }: SettingsModalProps) {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [name, setName] = useState('');
     const [frameImage, setFrameImage] = useState<string | null>(null);
-    const [areaConfig, setAreaConfig] = useState<AreaConfig | null>(null);
+    // Newly chosen frame file, written to IndexedDB on save
+    const [frameBlob, setFrameBlob] = useState<Blob | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isDetecting, setIsDetecting] = useState(false);
+    // Detection result for a fresh upload, waiting for the user to apply it
+    const [proposal, setProposal] = useState<DetectedPlaceholder | null>(null);
+    const [importedPackage, setImportedPackage] = useState<ImportedTemplate | null>(null);
+    const [areas, setAreas] = useState<QrArea[]>([]);
+    const [fillMode, setFillMode] = useState<FillMode>('sequential');
+    const [textFields, setTextFields] = useState<TextField[]>([]);
+    const [placement, setPlacement] = useState<Placement>(DEFAULT_PLACEMENT);
+    const [isDirty, setIsDirty] = useState(false);
     const [saveSuccess, setSaveSuccess] = useState(false);
     const frameInputRef = useRef<HTMLInputElement>(null);
     const importInputRef = useRef<HTMLInputElement>(null);
+    const packageInputRef = useRef<HTMLInputElement>(null);
+    // Bumped whenever the draft frame changes, so a detection still running for the old frame is dropped
+    const detectionRef = useRef(0);
+
+    // An unsaved frame only lives in its object URL; stored frames belong to the library
+    const releaseDraftFrame = () => {
+        if (frameBlob && frameImage) URL.revokeObjectURL(frameImage);
+    };
 
-    // Load current saved settings when modal opens
+    const loadDraft = (template: FrameTemplate) => {
+        releaseDraftFrame();
+        detectionRef.current++;
+        setIsDetecting(false);
+        setProposal(null);
+        setEditingId(template.id);
+        setName(template.name);
+        setFrameImage(template.frameImage || null);
+        setFrameBlob(null);
+        setAreas(template.areas);
+        setFillMode(template.fillMode);
+        setTextFields(template.textFields);
+        setPlacement(template.placement);
+        setIsDirty(false);
+        setSaveSuccess(false);
+    };
+
+    const commitLibrary = (next: TemplateLibrary): boolean => {
+        try {
+            saveLibrary(next);
+        } catch (error) {
+            console.error('Error saving templates:', error);
+            alert(error instanceof Error ? error.message : 'Gagal menyimpan template.');
+            return false;
+        }
+        onLibraryChange(next);
+        return true;
+    };
+
+    // Load the active template when modal opens; start a first template if there is none
+    const openDraft = () => {
+        const active = library.templates.find(t => t.id === library.activeId) ?? library.templates[0];
+        if (active) {
+            loadDraft(active);
+        } else {
+            const template = createTemplate('Template 1');
+            commitLibrary({ templates: [template], activeId: template.id });
+            loadDraft(template);
+        }
+    };
+
+    // Only on open: our own library updates while editing must not reset the draft
+    const openDraftRef = useRef(openDraft);
+    useEffect(() => {
+        openDraftRef.current = openDraft;
+    });
     useEffect(() => {
-        if (isOpen && savedSettings) {
-            setFrameImage(savedSettings.frameImage);
-            setAreaConfig(savedSettings.areaConfig);
-        } else if (isOpen && !savedSettings) {
-            // Try loading from localStorage
-            const saved = localStorage.getItem(SETTINGS_KEY);
-            if (saved) {
-                try {
-                    const parsed = JSON.parse(saved) as SavedSettings;
-                    setFrameImage(parsed.frameImage);
-                    setAreaConfig(parsed.areaConfig);
-                } catch {
-                    // ignore
+        if (isOpen) openDraftRef.current();
+    }, [isOpen]);
+
+    const markDirty = () => {
+        setIsDirty(true);
+        setSaveSuccess(false);
+    };
+
+    const confirmDiscard = () =>
+        !isDirty || confirm('Perubahan pada template ini belum disimpan. Lanjutkan tanpa menyimpan?');
+
+    const handleClose = () => {
+        if (confirmDiscard()) onClose();
+    };
+
+    const handleSelectTemplate = (id: string) => {
+        const template = library.templates.find(t => t.id === id);
+        if (!template || !confirmDiscard()) return;
+        loadDraft(template);
+    };
+
+    const handleNewTemplate = () => {
+        if (!confirmDiscard()) return;
+        const template = createTemplate(`Template ${library.templates.length + 1}`);
+        commitLibrary({ templates: [...library.templates, template], activeId: library.activeId ?? template.id });
+        loadDraft(template);
+    };
+
+    const handleDuplicateTemplate = async () => {
+        const source = library.templates.find(t => t.id === editingId);
+        if (!source || !confirmDiscard()) return;
+        const copy = duplicateTemplate(source);
+        try {
+            copy.frameImage = await copyTemplateFrame(source.id, copy.id);
+        } catch (error) {
+            console.error('Error copying frame:', error);
+            alert(error instanceof Error ? error.message : 'Gagal menyalin frame.');
+            return;
+        }
+        if (commitLibrary({ ...library, templates: [...library.templates, copy] })) {
+            loadDraft(copy);
+        }
+    };
+
+    const handleDeleteTemplate = () => {
+        const template = library.templates.find(t => t.id === editingId);
+        if (!template || !confirm(`Hapus template "${template.name}"?`)) return;
+
+        deleteTemplateFrame(template).catch(error => console.error('Error deleting frame:', error));
+        const remaining = library.templates.filter(t => t.id !== template.id);
+        if (remaining.length === 0) {
+            const fresh = createTemplate('Template 1');
+            commitLibrary({ templates: [fresh], activeId: fresh.id });
+            loadDraft(fresh);
+            return;
+        }
+        const activeId = library.activeId === template.id ? remaining[0].id : library.activeId;
+        commitLibrary({ templates: remaining, activeId });
+        loadDraft(remaining.find(t => t.id === activeId) ?? remaining[0]);
+    };
+
+    const handleSetActive = () => {
+        if (!editingId) return;
+        commitLibrary({ ...library, activeId: editingId });
+    };
+
+    // Makes the detected placeholder(s) the QR slots.
+    // A key-coloured placeholder is cut out, so the cleaned frame replaces the current one.
+    const applyDetection = (detected: DetectedPlaceholder) => {
+        setAreas(detected.areas.map((area, index) => createQrArea(`QRIS ${index + 1}`, area)));
+        if (detected.cleanedFrame) {
+            releaseDraftFrame();
+            setFrameImage(URL.createObjectURL(detected.cleanedFrame));
+            setFrameBlob(detected.cleanedFrame);
+        }
+        setProposal(null);
+        markDirty();
+    };
+
+    // Pressing Deteksi Otomatis applies the result at once; after an upload it is only proposed,
+    // so nothing the user has set up is replaced without asking.
+    const runDetection = async (url: string, explicit: boolean) => {
+        const requestId = ++detectionRef.current;
+        setIsDetecting(true);
+        setProposal(null);
+        try {
+            const detected = await detectPlaceholder(url);
+            if (requestId !== detectionRef.current) return;
+            if (!detected) {
+                if (explicit) {
+                    alert(`Area placeholder tidak ditemukan. Beri area QR warna ${KEY_COLOR} (magenta), buat transparan, atau biarkan kosong putih.`);
                 }
-            } else {
-                // Use default area config
-                setAreaConfig(DEFAULT_AREA_CONFIG);
+                return;
             }
+            if (explicit) applyDetection(detected);
+            else setProposal(detected);
+        } catch (error) {
+            if (requestId !== detectionRef.current) return;
+            console.error('Error detecting placeholder:', error);
+            if (explicit) alert('Gagal menganalisis frame.');
+        } finally {
+            if (requestId === detectionRef.current) setIsDetecting(false);
         }
-        setSaveSuccess(false);
-    }, [isOpen, savedSettings]);
+    };
 
     const handleFrameUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                setFrameImage(event.target?.result as string);
-                // Apply default area config when frame changes
-                setAreaConfig(DEFAULT_AREA_CONFIG);
-                setSaveSuccess(false);
-            };
-            reader.readAsDataURL(file);
+            releaseDraftFrame();
+            const url = URL.createObjectURL(file);
+            setFrameImage(url);
+            setFrameBlob(file);
+            // Centred default until detection finds the real placeholder
+            setAreas([createQrArea('QRIS 1')]);
+            markDirty();
+            runDetection(url, false);
         }
+        e.target.value = '';
     };
 
-    const handleSave = () => {
-        if (!frameImage || !areaConfig) return;
+    const handleSave = async () => {
+        if (!canSave || !editingId || !frameImage) return;
 
-        const settings: SavedSettings = {
-            frameImage,
-            areaConfig,
-        };
+        const previous = library.templates.find(t => t.id === editingId);
+        let frameUrl = frameImage;
+        if (frameBlob) {
+            setIsSaving(true);
+            try {
+                frameUrl = await storeTemplateFrame(editingId, frameBlob);
+            } catch (error) {
+                console.error('Error saving frame:', error);
+                alert(error instanceof Error ? error.message : 'Gagal menyimpan frame.');
+                return;
+            } finally {
+                setIsSaving(false);
+            }
+            URL.revokeObjectURL(frameImage);
+            if (previous?.frameImage.startsWith('blob:')) {
+                URL.revokeObjectURL(previous.frameImage);
+            }
+            setFrameImage(frameUrl);
+            setFrameBlob(null);
+        }
 
-        // Save to localStorage
-        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+        const template: FrameTemplate = {
+            id: editingId,
+            name: name.trim() || 'Template',
+            frameImage: frameUrl,
+            areas,
+            fillMode,
+            textFields,
+            placement,
+            print: previous?.print ?? DEFAULT_PRINT_PREFERENCES,
+        };
 
-        // Notify parent
-        onSave(settings);
+        // Save metadata to localStorage and notify parent
+        const saved = commitLibrary({
+            ...library,
+            templates: library.templates.map(t => (t.id === editingId ? template : t)),
+        });
+        if (!saved) return;
+        setIsDirty(false);
         setSaveSuccess(true);
 
         // Auto-hide success message
@@ -88,20 +293,80 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
     };
 
     const handleExportConfig = () => {
-        if (!areaConfig || !frameImage) return;
+        if (areas.length === 0 || !frameImage) return;
 
         const exportData = {
-            areaConfig,
+            areas,
+            fillMode,
             exportedAt: new Date().toISOString(),
         };
-        const data = JSON.stringify(exportData, null, 2);
-        const blob = new Blob([data], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.download = 'qris-area-config.json';
-        link.href = url;
-        link.click();
-        URL.revokeObjectURL(url);
+        downloadJson(JSON.stringify(exportData, null, 2), 'qris-area-config.json');
+    };
+
+    const downloadJson = (data: string, fileName: string) => {
+        downloadBlob(new Blob([data], { type: 'application/json' }), fileName);
+    };
+
+    const handleExportPackage = async () => {
+        const template = library.templates.find(t => t.id === editingId);
+        if (!isTemplateReady(template)) return;
+        if (isDirty) {
+            alert('Simpan perubahan template terlebih dahulu sebelum mengekspor paket.');
+            return;
+        }
+        try {
+            downloadJson(await createTemplatePackage(template), packageFileName(template));
+        } catch (error) {
+            console.error('Error exporting template package:', error);
+            alert('Gagal membuat paket template.');
+        }
+    };
+
+    const openPackage = async (data: unknown) => {
+        try {
+            setImportedPackage(await readTemplatePackage(data));
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Paket template tidak valid.');
+        }
+    };
+
+    const handleImportPackage = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            try {
+                openPackage(JSON.parse(event.target?.result as string));
+            } catch {
+                alert('Gagal membaca file. Pastikan file adalah JSON yang valid.');
+            }
+        };
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const closeImportedPackage = () => {
+        if (importedPackage) {
+            URL.revokeObjectURL(importedPackage.template.frameImage);
+        }
+        setImportedPackage(null);
+    };
+
+    const handleAddImportedPackage = async (templateName: string) => {
+        if (!importedPackage || !confirmDiscard()) return;
+        const { template, frameBlob } = importedPackage;
+        try {
+            const frameUrl = await storeTemplateFrame(template.id, frameBlob);
+            const added = { ...template, name: templateName, frameImage: frameUrl };
+            if (commitLibrary({ ...library, templates: [...library.templates, added] })) {
+                loadDraft(added);
+                closeImportedPackage();
+            }
+        } catch (error) {
+            console.error('Error importing template package:', error);
+            alert(error instanceof Error ? error.message : 'Gagal menyimpan frame.');
+        }
     };
 
     const handleImportConfig = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -112,15 +377,23 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
         reader.onload = (event) => {
             try {
                 const data = JSON.parse(event.target?.result as string);
-                const config = data.areaConfig || data;
-                if (
-                    typeof config.x === 'number' &&
-                    typeof config.y === 'number' &&
-                    typeof config.width === 'number' &&
-                    typeof config.height === 'number'
-                ) {
-                    setAreaConfig(config);
-                    setSaveSuccess(false);
+                // A full template package picked here is offered as a new template instead
+                if (isTemplatePackage(data)) {
+                    openPackage(data);
+                    return;
+                }
+                // Older exports carry a single `areaConfig` (or are the bare area object)
+                const configs: AreaConfig[] = Array.isArray(data.areas) ? data.areas : [data.areaConfig || data];
+                if (configs.length > 0 && configs.every(isAreaConfig)) {
+                    setAreas(configs.map((config, index) => ({
+                        ...createQrArea(`QRIS ${index + 1}`, config),
+                        ...('name' in config && typeof config.name === 'string' ? { name: config.name } : {}),
+                        ...('quad' in config && isQuad(config.quad) ? { quad: config.quad } : {}),
+                    })));
+                    if (data.fillMode === 'sequential' || data.fillMode === 'repeat') {
+                        setFillMode(data.fillMode);
+                    }
+                    markDirty();
                 } else {
                     alert('Format file tidak valid.');
                 }
@@ -136,12 +409,17 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
     };
 
     const handleRemoveFrame = () => {
+        releaseDraftFrame();
+        detectionRef.current++;
+        setIsDetecting(false);
+        setProposal(null);
         setFrameImage(null);
-        setAreaConfig(null);
-        setSaveSuccess(false);
+        setFrameBlob(null);
+        setAreas([]);
+        markDirty();
     };
 
-    const canSave = frameImage && areaConfig && areaConfig.width > 1 && areaConfig.height > 1;
+    const canSave = !!frameImage && areas.length > 0 && areas.every(a => a.width > 1 && a.height > 1);
 
     if (!isOpen) return null;
 
@@ -150,7 +428,7 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
             {/* Backdrop */}
             <div
                 className="fixed inset-0 bg-black/50 backdrop-blur-sm"
-                onClick={onClose}
+                onClick={handleClose}
             />
 
             {/* Modal */}
@@ -162,7 +440,7 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
                         Pengaturan
                     </h2>
                     <button
-                        onClick={onClose}
+                        onClick={handleClose}
                         className="p-2 hover:bg-slate-100 rounded-full transition-colors"
                     >
                         <X className="w-5 h-5 text-slate-500" />
@@ -171,6 +449,93 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
 
                 {/* Body */}
                 <div className="p-6 space-y-6 max-h-[calc(100vh-200px)] overflow-y-auto">
+                    {/* Section: Template library */}
+                    <div className="p-4 bg-slate-50 rounded-xl border border-slate-200">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <select
+                                value={editingId ?? ''}
+                                onChange={(e) => handleSelectTemplate(e.target.value)}
+                                className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                {library.templates.map(t => (
+                                    <option key={t.id} value={t.id}>
+                                        {t.id === library.activeId ? '★ ' : ''}{t.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <input
+                                value={name}
+                                onChange={(e) => {
+                                    setName(e.target.value);
+                                    markDirty();
+                                }}
+                                placeholder="Nama template"
+                                className="flex-1 min-w-[10rem] px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            {editingId === library.activeId ? (
+                                <span className="px-3 py-2 bg-emerald-100 text-emerald-700 rounded-lg text-sm font-medium flex items-center gap-1.5">
+                                    <Star className="w-3.5 h-3.5" />
+                                    Aktif
+                                </span>
+                            ) : (
+                                <button
+                                    onClick={handleSetActive}
+                                    className="px-3 py-2 bg-emerald-50 text-emerald-600 rounded-lg hover:bg-emerald-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+                                >
+                                    <Star className="w-3.5 h-3.5" />
+                                    Jadikan Aktif
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 mt-3">
+                            <button
+                                onClick={handleNewTemplate}
+                                className="px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+                            >
+                                <Plus className="w-3.5 h-3.5" />
+                                Template Baru
+                            </button>
+                            <button
+                                onClick={handleDuplicateTemplate}
+                                className="px-3 py-1.5 bg-white text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+                            >
+                                <Copy className="w-3.5 h-3.5" />
+                                Duplikat
+                            </button>
+                            <button
+                                onClick={handleExportPackage}
+                                disabled={!isTemplateReady(library.templates.find(t => t.id === editingId))}
+                                className="px-3 py-1.5 bg-emerald-50 text-emerald-600 rounded-lg hover:bg-emerald-100 transition-colors text-sm font-medium flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed"
+                                title="Simpan template lengkap dengan frame ke satu file"
+                            >
+                                <Package className="w-3.5 h-3.5" />
+                                Export Paket
+                            </button>
+                            <button
+                                onClick={() => packageInputRef.current?.click()}
+                                className="px-3 py-1.5 bg-emerald-50 text-emerald-600 rounded-lg hover:bg-emerald-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+                                title="Tambahkan template dari file paket"
+                            >
+                                <PackageOpen className="w-3.5 h-3.5" />
+                                Import Paket
+                            </button>
+                            <input
+                                ref={packageInputRef}
+                                type="file"
+                                accept=".json,application/json"
+                                onChange={handleImportPackage}
+                                className="hidden"
+                            />
+                            <button
+                                onClick={handleDeleteTemplate}
+                                className="px-3 py-1.5 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                                Hapus
+                            </button>
+                        </div>
+                    </div>
+
                     {/* Section: Frame Template */}
                     <div>
                         <h3 className="text-lg font-semibold text-slate-700 mb-3">1. Frame Template</h3>
@@ -183,7 +548,7 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
                             >
                                 <Upload className="w-10 h-10 text-slate-400 group-hover:text-blue-500" />
                                 <span className="text-slate-600 group-hover:text-blue-600 font-medium">Upload Frame Template</span>
-                                <span className="text-sm text-slate-400">JPG, PNG, atau WebP</span>
+                                <span className="text-sm text-slate-400">JPG, PNG, atau WebP. Warnai area QR dengan {KEY_COLOR} agar terdeteksi otomatis.</span>
                             </button>
                         ) : (
                             <div className="relative w-48">
@@ -214,9 +579,18 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
                         <div className="flex items-center justify-between mb-3">
                             <div>
                                 <h3 className="text-lg font-semibold text-slate-700">2. Tandai Area QRIS</h3>
-                                <p className="text-sm text-slate-500 mt-1">Klik dan drag pada frame untuk menentukan area penempatan QRIS.</p>
+                                <p className="text-sm text-slate-500 mt-1">Klik dan drag pada frame untuk menentukan area penempatan QRIS. Tambah slot untuk beberapa QRIS dalam satu kartu.</p>
                             </div>
                             <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => frameImage && runDetection(frameImage, true)}
+                                    disabled={!frameImage || isDetecting}
+                                    className="px-3 py-1.5 bg-violet-50 text-violet-600 rounded-lg hover:bg-violet-100 transition-colors text-sm font-medium flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed"
+                                    title={`Cari area kosong, transparan, atau berwarna ${KEY_COLOR} pada frame`}
+                                >
+                                    {isDetecting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+                                    Deteksi Otomatis
+                                </button>
                                 <button
                                     onClick={() => importInputRef.current?.click()}
                                     className="px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors text-sm font-medium flex items-center gap-1.5"
@@ -234,7 +608,7 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
                                 />
                                 <button
                                     onClick={handleExportConfig}
-                                    disabled={!areaConfig}
+                                    disabled={areas.length === 0}
                                     className="px-3 py-1.5 bg-emerald-50 text-emerald-600 rounded-lg hover:bg-emerald-100 transition-colors text-sm font-medium flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed"
                                     title="Export konfigurasi area"
                                 >
@@ -244,13 +618,78 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
                             </div>
                         </div>
 
+                        {proposal && (
+                            <div className="mb-3 p-3 bg-violet-50 border border-violet-200 rounded-lg flex items-center gap-3 text-sm text-violet-800">
+                                <Wand2 className="w-4 h-4 shrink-0" />
+                                <span className="flex-1">
+                                    {proposal.areas.length} area placeholder terdeteksi pada frame
+                                    {proposal.cleanedFrame ? '; warna kunci akan dihapus dari frame.' : '.'}
+                                </span>
+                                <button
+                                    onClick={() => applyDetection(proposal)}
+                                    className="px-3 py-1 bg-violet-600 text-white rounded-md hover:bg-violet-700 transition-colors text-xs font-medium"
+                                >
+                                    Terapkan
+                                </button>
+                                <button
+                                    onClick={() => setProposal(null)}
+                                    className="px-3 py-1 text-violet-700 rounded-md hover:bg-violet-100 transition-colors text-xs font-medium"
+                                >
+                                    Abaikan
+                                </button>
+                            </div>
+                        )}
+
                         {frameImage ? (
-                            <AreaSelector
+                            <>
+                                <QrAreasEditor
+                                    frameImage={frameImage}
+                                    areas={areas}
+                                    fillMode={fillMode}
+                                    guides={textFields.map(f => ({ area: f.area, label: f.name }))}
+                                    placement={placement}
+                                    onAreasChange={(next) => {
+                                        setAreas(next);
+                                        markDirty();
+                                    }}
+                                    onFillModeChange={(mode) => {
+                                        setFillMode(mode);
+                                        markDirty();
+                                    }}
+                                />
+                                <PlacementEditor
+                                    placement={placement}
+                                    onChange={(next) => {
+                                        setPlacement(next);
+                                        markDirty();
+                                    }}
+                                />
+                            </>
+                        ) : (
+                            <div className="py-8 border-2 border-dashed border-slate-200 rounded-xl text-center">
+                                <p className="text-slate-400 text-sm">Upload frame template terlebih dahulu</p>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Divider */}
+                    <hr className="border-slate-200" />
+
+                    {/* Section: Text fields */}
+                    <div>
+                        <h3 className="text-lg font-semibold text-slate-700">3. Teks pada Frame</h3>
+                        <p className="text-sm text-slate-500 mt-1 mb-3">
+                            Opsional. Tambahkan area teks seperti nama merchant atau NMID yang diisi otomatis dari QRIS atau manual per gambar.
+                        </p>
+
+                        {frameImage ? (
+                            <TextFieldsEditor
                                 frameImage={frameImage}
-                                areaConfig={areaConfig}
-                                onAreaChange={(area) => {
-                                    setAreaConfig(area);
-                                    setSaveSuccess(false);
+                                qrAreas={areas}
+                                textFields={textFields}
+                                onChange={(fields) => {
+                                    setTextFields(fields);
+                                    markDirty();
                                 }}
                             />
                         ) : (
@@ -279,14 +718,14 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
                     </div>
                     <div className="flex items-center gap-3">
                         <button
-                            onClick={onClose}
+                            onClick={handleClose}
                             className="px-5 py-2.5 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors font-medium"
                         >
                             Tutup
                         </button>
                         <button
                             onClick={handleSave}
-                            disabled={!canSave}
+                            disabled={!canSave || isSaving}
                             className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed shadow-md"
                         >
                             <Save className="w-4 h-4" />
@@ -295,9 +734,14 @@ function SettingsModal({ isOpen, onClose, savedSettings, onSave }: SettingsModal
                     </div>
                 </div>
             </div>
+
+            <TemplateImportModal
+                imported={importedPackage}
+                onClose={closeImportedPackage}
+                onAdd={handleAddImportedPackage}
+            />
         </div>
     );
 }
 
 export default SettingsModal;
-export { SETTINGS_KEY, DEFAULT_AREA_CONFIG };
@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { PackageOpen, X, Plus } from 'lucide-react';
+import { ImportedTemplate } from '../lib/templatePackage';
+
+interface TemplateImportModalProps {
+    imported: ImportedTemplate | null;
+    onClose: () => void;
+    onAdd: (name: string) => void;
+}
+
+function TemplateImportModal({ imported, onClose, onAdd }: TemplateImportModalProps) {
+    const [name, setName] = useState('');
+
+    useEffect(() => {
+        if (imported) {
+            setName(imported.template.name);
+        }
+    }, [imported]);
+
+    if (!imported) return null;
+
+    const { template } = imported;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto">
+            <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+            <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-lg mx-4 my-8 z-10">
+                <div className="flex items-center justify-between p-5 border-b border-slate-200">
+                    <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                        <PackageOpen className="w-5 h-5 text-slate-600" />
+                        Import Paket Template
+                    </h2>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-slate-500" />
+                    </button>
+                </div>
+
+                <div className="p-5 space-y-4">
+                    <div className="relative mx-auto w-64">
+                        <img src={template.frameImage} alt="Frame" className="w-full rounded-lg shadow-md border border-slate-200" />
+                        {template.areas.map(area => (
+                            <div
+                                key={area.id}
+                                className="absolute border-2 border-blue-500 bg-blue-500/20"
+                                style={{ left: `${area.x}%`, top: `${area.y}%`, width: `${area.width}%`, height: `${area.height}%` }}
+                            >
+                                <span className="absolute top-0 left-0 px-1 bg-blue-500 text-white text-[10px] leading-tight">{area.name}</span>
+                            </div>
+                        ))}
+                        {template.textFields.map(field => (
+                            <div
+                                key={field.id}
+                                className="absolute border border-dashed border-amber-500 bg-amber-400/10"
+                                style={{ left: `${field.area.x}%`, top: `${field.area.y}%`, width: `${field.area.width}%`, height: `${field.area.height}%` }}
+                            />
+                        ))}
+                    </div>
+
+                    <ul className="text-sm text-slate-600 space-y-1">
+                        <li>{template.areas.length} slot QRIS ({template.fillMode === 'repeat' ? 'QRIS sama di semua slot' : 'berurutan'})</li>
+                        <li>{template.textFields.length} area teks</li>
+                        <li>{template.print.page.rows} × {template.print.page.cols} kartu per halaman</li>
+                        {imported.exportedAt && (
+                            <li className="text-slate-400">Diekspor {new Date(imported.exportedAt).toLocaleString('id-ID')}</li>
+                        )}
+                    </ul>
+
+                    <div>
+                        <label className="block text-sm font-medium text-slate-700 mb-1">Nama template</label>
+                        <input
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                </div>
+
+                <div className="p-5 border-t border-slate-200 flex justify-end gap-3">
+                    <button
+                        onClick={onClose}
+                        className="px-5 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors font-medium"
+                    >
+                        Batal
+                    </button>
+                    <button
+                        onClick={() => onAdd(name.trim() || template.name)}
+                        className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium flex items-center gap-2"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Tambahkan ke Template
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default TemplateImportModal;
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Plus, Trash2, Type } from 'lucide-react';
+import AreaSelector from './AreaSelector';
+import { QrArea } from '../lib/templates';
+import { DEFAULT_TEXT_AREA, FONT_FAMILIES, TEXT_SOURCES, TextAlign, TextField, TextSource, createTextField } from '../lib/textFields';
+
+interface TextFieldsEditorProps {
+    frameImage: string;
+    qrAreas: QrArea[];
+    textFields: TextField[];
+    onChange: (textFields: TextField[]) => void;
+}
+
+const inputClass = 'w-full px-2.5 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function TextFieldsEditor({ frameImage, qrAreas, textFields, onChange }: TextFieldsEditorProps) {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const selected = textFields.find(f => f.id === selectedId) ?? textFields[0] ?? null;
+
+    const updateField = (id: string, patch: Partial<TextField>) => {
+        onChange(textFields.map(f => (f.id === id ? { ...f, ...patch } : f)));
+    };
+
+    const handleAdd = () => {
+        const field = createTextField(`Teks ${textFields.length + 1}`);
+        onChange([...textFields, field]);
+        setSelectedId(field.id);
+    };
+
+    const handleRemove = (id: string) => {
+        const remaining = textFields.filter(f => f.id !== id);
+        onChange(remaining);
+        if (selected?.id === id) setSelectedId(remaining[0]?.id ?? null);
+    };
+
+    const guides = [
+        ...qrAreas.map(a => ({ area: a, label: a.name })),
+        ...textFields.filter(f => f.id !== selected?.id).map(f => ({ area: f.area, label: f.name })),
+    ];
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+                {textFields.map(field => (
+                    <button
+                        key={field.id}
+                        onClick={() => setSelectedId(field.id)}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1.5 transition-colors ${field.id === selected?.id
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                            }`}
+                    >
+                        <Type className="w-3.5 h-3.5" />
+                        {field.name}
+                    </button>
+                ))}
+                <button
+                    onClick={handleAdd}
+                    className="px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+                >
+                    <Plus className="w-3.5 h-3.5" />
+                    Tambah Teks
+                </button>
+            </div>
+
+            {selected && (
+                <div className="space-y-3">
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                        <div className="col-span-2">
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Nama</label>
+                            <input
+                                value={selected.name}
+                                onChange={(e) => updateField(selected.id, { name: e.target.value })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div className="col-span-2">
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Isi dari</label>
+                            <select
+                                value={selected.source}
+                                onChange={(e) => updateField(selected.id, { source: e.target.value as TextSource })}
+                                className={inputClass}
+                            >
+                                {TEXT_SOURCES.map(src => (
+                                    <option key={src.value} value={src.value}>{src.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {qrAreas.length > 1 && (
+                            <div className="col-span-2 sm:col-span-4">
+                                <label className="block text-xs font-medium text-slate-500 mb-1">Ambil data dari slot</label>
+                                <select
+                                    value={selected.slotId ?? qrAreas[0].id}
+                                    onChange={(e) => updateField(selected.id, { slotId: e.target.value })}
+                                    className={inputClass}
+                                >
+                                    {qrAreas.map((area, index) => (
+                                        <option key={area.id} value={area.id}>{index + 1}. {area.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        <div className="col-span-2">
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Font</label>
+                            <select
+                                value={selected.fontFamily}
+                                onChange={(e) => updateField(selected.id, { fontFamily: e.target.value })}
+                                className={inputClass}
+                                style={{ fontFamily: selected.fontFamily }}
+                            >
+                                {FONT_FAMILIES.map(font => (
+                                    <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Ukuran (px)</label>
+                            <input
+                                type="number"
+                                min={6}
+                                value={selected.fontSize}
+                                onChange={(e) => updateField(selected.id, { fontSize: Math.max(6, Number(e.target.value) || 6) })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Warna</label>
+                            <input
+                                type="color"
+                                value={selected.color}
+                                onChange={(e) => updateField(selected.id, { color: e.target.value })}
+                                className="w-full h-[34px] border border-slate-300 rounded-lg cursor-pointer"
+                            />
+                        </div>
+                        <div className="col-span-2">
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Perataan</label>
+                            <div className="flex rounded-lg border border-slate-300 overflow-hidden">
+                                {(['left', 'center', 'right'] as TextAlign[]).map(align => (
+                                    <button
+                                        key={align}
+                                        onClick={() => updateField(selected.id, { align })}
+                                        className={`flex-1 py-1.5 text-sm ${selected.align === align ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                                    >
+                                        {align === 'left' ? 'Kiri' : align === 'center' ? 'Tengah' : 'Kanan'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="col-span-2 flex items-end gap-4 pb-1.5">
+                            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={selected.bold}
+                                    onChange={(e) => updateField(selected.id, { bold: e.target.checked })}
+                                    className="rounded border-slate-300"
+                                />
+                                Tebal
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={selected.autoShrink}
+                                    onChange={(e) => updateField(selected.id, { autoShrink: e.target.checked })}
+                                    className="rounded border-slate-300"
+                                />
+                                Perkecil otomatis agar muat
+                            </label>
+                        </div>
+                    </div>
+
+                    <AreaSelector
+                        frameImage={frameImage}
+                        areaConfig={selected.area}
+                        onAreaChange={(area) => updateField(selected.id, { area: area ?? DEFAULT_TEXT_AREA })}
+                        guides={guides}
+                    />
+
+                    <div className="flex justify-end">
+                        <button
+                            onClick={() => handleRemove(selected.id)}
+                            className="px-3 py-1.5 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors text-sm font-medium flex items-center gap-1.5"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                            Hapus {selected.name}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default TextFieldsEditor;
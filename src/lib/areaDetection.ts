@@ -0,0 +1,204 @@
+import { AreaConfig } from '../components/AreaSelector';
+import { loadImage } from './qrDecode';
+
+// Finds where the QR goes in a freshly uploaded frame. In order of preference:
+// 1. regions painted in the key colour (pure magenta), which are then cut out of the frame
+// 2. transparent holes inside the frame
+// 3. the largest blank (near-white) square
+
+export type DetectionMethod = 'key-color' | 'transparent' | 'blank';
+
+export interface DetectedPlaceholder {
+  method: DetectionMethod;
+  // One per placeholder, top to bottom and left to right
+  areas: AreaConfig[];
+  // Frame with the key colour made transparent; only for 'key-color'
+  cleanedFrame?: Blob;
+}
+
+export const KEY_COLOR = '#FF00FF';
+
+// Detection runs on a downscaled copy; the key colour is removed at full size
+const ANALYSIS_SIZE = 600;
+// Placeholders smaller than this share of the frame are noise
+const MIN_REGION_SHARE = 0.005;
+const KEY_TOLERANCE = 90;
+const BLANK_LUMINANCE = 245;
+
+const isKeyColor = (r: number, g: number, b: number, a: number) =>
+  a > 128 && 255 - r + g + (255 - b) < KEY_TOLERANCE;
+
+interface Region {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  size: number;
+  touchesBorder: boolean;
+}
+
+// Bounding boxes of the 4-connected regions of `mask`
+const findRegions = (mask: Uint8Array, width: number, height: number): Region[] => {
+  const seen = new Uint8Array(mask.length);
+  const regions: Region[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const region: Region = { left: width, top: height, right: 0, bottom: 0, size: 0, touchesBorder: false };
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      region.size++;
+      region.left = Math.min(region.left, x);
+      region.right = Math.max(region.right, x + 1);
+      region.top = Math.min(region.top, y);
+      region.bottom = Math.max(region.bottom, y + 1);
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) region.touchesBorder = true;
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    regions.push(region);
+  }
+  return regions;
+};
+
+// Clears every mask region connected to the image edge, leaving only enclosed ones
+const clearBorderRegions = (mask: Uint8Array, width: number, height: number) => {
+  const stack: number[] = [];
+  const visit = (index: number) => {
+    if (!mask[index]) return;
+    mask[index] = 0;
+    stack.push(index);
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    const x = index % width;
+    if (x > 0) visit(index - 1);
+    if (x < width - 1) visit(index + 1);
+    if (index >= width) visit(index - width);
+    if (index < mask.length - width) visit(index + width);
+  }
+  return mask;
+};
+
+// Largest square of set mask pixels, by the classic dynamic programme over bottom-right corners
+const findLargestSquare = (mask: Uint8Array, width: number, height: number): Region | null => {
+  const sizes = new Uint16Array(mask.length);
+  let best = 0;
+  let bestIndex = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (!mask[index]) continue;
+      sizes[index] = x === 0 || y === 0
+        ? 1
+        : 1 + Math.min(sizes[index - 1], sizes[index - width], sizes[index - width - 1]);
+      if (sizes[index] > best) {
+        best = sizes[index];
+        bestIndex = index;
+      }
+    }
+  }
+  if (bestIndex < 0) return null;
+  const right = (bestIndex % width) + 1;
+  const bottom = Math.floor(bestIndex / width) + 1;
+  return { left: right - best, top: bottom - best, right, bottom, size: best * best, touchesBorder: false };
+};
+
+const toAreas = (regions: Region[], width: number, height: number): AreaConfig[] =>
+  regions
+    .sort((a, b) => a.top - b.top || a.left - b.left)
+    .map(region => ({
+      x: (region.left / width) * 100,
+      y: (region.top / height) * 100,
+      width: ((region.right - region.left) / width) * 100,
+      height: ((region.bottom - region.top) / height) * 100,
+    }));
+
+// The full-size frame with every key-coloured pixel made transparent
+const removeKeyColor = async (img: HTMLImageElement): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas tidak tersedia');
+  ctx.drawImage(img, 0, 0);
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    if (isKeyColor(data[i], data[i + 1], data[i + 2], data[i + 3])) data[i + 3] = 0;
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Gagal memproses frame'))), 'image/png');
+  });
+};
+
+export const detectPlaceholder = async (frameUrl: string): Promise<DetectedPlaceholder | null> => {
+  const img = await loadImage(frameUrl);
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const minSize = width * height * MIN_REGION_SHARE;
+  const buildMask = (test: (r: number, g: number, b: number, a: number) => boolean) => {
+    const mask = new Uint8Array(width * height);
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = test(data[i * 4], data[i * 4 + 1], data[i * 4 + 2], data[i * 4 + 3]) ? 1 : 0;
+    }
+    return mask;
+  };
+
+  const keyRegions = findRegions(buildMask(isKeyColor), width, height).filter(region => region.size >= minSize);
+  if (keyRegions.length > 0) {
+    return { method: 'key-color', areas: toAreas(keyRegions, width, height), cleanedFrame: await removeKeyColor(img) };
+  }
+
+  // Transparent margins and rounded corners reach the edge of the image; holes for the QR do not
+  const holes = findRegions(buildMask((_r, _g, _b, a) => a < 16), width, height)
+    .filter(region => region.size >= minSize && !region.touchesBorder);
+  if (holes.length > 0) {
+    return { method: 'transparent', areas: toAreas(holes, width, height) };
+  }
+
+  // A white background around the artwork is not a placeholder, so only enclosed blank space counts
+  const blankMask = buildMask((r, g, b, a) => a > 240 && 0.299 * r + 0.587 * g + 0.114 * b >= BLANK_LUMINANCE);
+  const blank = findLargestSquare(clearBorderRegions(blankMask, width, height), width, height);
+  if (blank && blank.size >= minSize) {
+    return { method: 'blank', areas: toAreas([blank], width, height) };
+  }
+  return null;
+};
@@ -0,0 +1,199 @@
+import { AreaConfig } from '../components/AreaSelector';
+import { Point, Quad, quadBounds } from './perspective';
+
+// Geometry behind dragging an area around a frame; everything is in percent of the frame
+
+export type Edge = 'l' | 't' | 'r' | 'b';
+
+export interface SnapLines {
+  x: number[];
+  y: number[];
+}
+
+// Snap reach in percent per axis; the same on-screen distance is a different share of each side of a non-square frame
+export interface SnapThreshold {
+  x: number;
+  y: number;
+}
+
+export interface EditResult {
+  area: AreaConfig;
+  // Targets the area snapped to, for drawing
+  lines: SnapLines;
+}
+
+export interface QuadEditResult {
+  quad: Quad;
+  lines: SnapLines;
+}
+
+export const MIN_AREA_SIZE = 0.5;
+
+// Keeps the area inside the frame and at least MIN_AREA_SIZE percent wide and tall
+export const clampArea = (area: AreaConfig): AreaConfig => {
+  const width = Math.max(MIN_AREA_SIZE, Math.min(100, area.width));
+  const height = Math.max(MIN_AREA_SIZE, Math.min(100, area.height));
+  return {
+    x: Math.max(0, Math.min(100 - width, area.x)),
+    y: Math.max(0, Math.min(100 - height, area.y)),
+    width,
+    height,
+  };
+};
+
+// Frame edges, frame centre, and the edges and centres of the guide areas
+export const getSnapTargets = (guides: AreaConfig[]): SnapLines => ({
+  x: [0, 50, 100, ...guides.flatMap(g => [g.x, g.x + g.width / 2, g.x + g.width])],
+  y: [0, 50, 100, ...guides.flatMap(g => [g.y, g.y + g.height / 2, g.y + g.height])],
+});
+
+// Smallest shift that puts one of `positions` on a target, if any is within `threshold`
+const findSnap = (positions: number[], targets: number[], threshold: number): { shift: number; line: number } | null => {
+  let best: { shift: number; line: number } | null = null;
+  for (const position of positions) {
+    for (const target of targets) {
+      const shift = target - position;
+      if (Math.abs(shift) <= threshold && (!best || Math.abs(shift) < Math.abs(best.shift))) {
+        best = { shift, line: target };
+      }
+    }
+  }
+  return best;
+};
+
+export const moveArea = (
+  original: AreaConfig,
+  dx: number,
+  dy: number,
+  targets: SnapLines | null,
+  threshold: SnapThreshold
+): EditResult => {
+  let area = clampArea({ ...original, x: original.x + dx, y: original.y + dy });
+  const lines: SnapLines = { x: [], y: [] };
+
+  if (targets) {
+    const snapX = findSnap([area.x, area.x + area.width / 2, area.x + area.width], targets.x, threshold.x);
+    const snapY = findSnap([area.y, area.y + area.height / 2, area.y + area.height], targets.y, threshold.y);
+    area = clampArea({ ...area, x: area.x + (snapX?.shift ?? 0), y: area.y + (snapY?.shift ?? 0) });
+    if (snapX) lines.x.push(snapX.line);
+    if (snapY) lines.y.push(snapY.line);
+  }
+  return { area, lines };
+};
+
+// Moves the given edges by dx/dy. With a `ratio` (width / height in percent units) the other
+// dimension follows: a corner keeps its opposite corner in place, a single edge stays centred.
+export const resizeArea = (
+  original: AreaConfig,
+  edges: Edge[],
+  dx: number,
+  dy: number,
+  ratio: number | null,
+  targets: SnapLines | null,
+  threshold: SnapThreshold
+): EditResult => {
+  let left = original.x;
+  let top = original.y;
+  let right = original.x + original.width;
+  let bottom = original.y + original.height;
+  const lines: SnapLines = { x: [], y: [] };
+
+  const snap = (value: number, axis: 'x' | 'y') => {
+    const clamped = Math.max(0, Math.min(100, value));
+    const hit = targets ? findSnap([clamped], targets[axis], threshold[axis]) : null;
+    if (!hit) return clamped;
+    lines[axis].push(hit.line);
+    return hit.line;
+  };
+
+  if (edges.includes('l')) left = Math.min(snap(left + dx, 'x'), right - MIN_AREA_SIZE);
+  if (edges.includes('r')) right = Math.max(snap(right + dx, 'x'), left + MIN_AREA_SIZE);
+  if (edges.includes('t')) top = Math.min(snap(top + dy, 'y'), bottom - MIN_AREA_SIZE);
+  if (edges.includes('b')) bottom = Math.max(snap(bottom + dy, 'y'), top + MIN_AREA_SIZE);
+
+  if (!ratio) {
+    return { area: clampArea({ x: left, y: top, width: right - left, height: bottom - top }), lines };
+  }
+
+  const horizontal = edges.includes('l') || edges.includes('r');
+  const vertical = edges.includes('t') || edges.includes('b');
+  let width = right - left;
+  let height = bottom - top;
+
+  if (horizontal && vertical) {
+    // Follow whichever side the pointer stretched more
+    if (width / ratio > height) height = width / ratio;
+    else width = height * ratio;
+    const availableWidth = edges.includes('l') ? right : 100 - left;
+    const availableHeight = edges.includes('t') ? bottom : 100 - top;
+    const fit = Math.min(1, availableWidth / width, availableHeight / height);
+    width *= fit;
+    height *= fit;
+    if (edges.includes('l')) left = right - width;
+    if (edges.includes('t')) top = bottom - height;
+  } else if (horizontal) {
+    const centre = (top + bottom) / 2;
+    height = width / ratio;
+    const availableWidth = edges.includes('l') ? right : 100 - left;
+    const fit = Math.min(1, availableWidth / width, (2 * Math.min(centre, 100 - centre)) / height);
+    width *= fit;
+    height *= fit;
+    if (edges.includes('l')) left = right - width;
+    top = centre - height / 2;
+  } else {
+    const centre = (left + right) / 2;
+    width = height * ratio;
+    const availableHeight = edges.includes('t') ? bottom : 100 - top;
+    const fit = Math.min(1, availableHeight / height, (2 * Math.min(centre, 100 - centre)) / width);
+    width *= fit;
+    height *= fit;
+    if (edges.includes('t')) top = bottom - height;
+    left = centre - width / 2;
+  }
+
+  // Keeping the ratio can pull a snapped edge off its line again
+  const area = clampArea({ x: left, y: top, width, height });
+  const onEdge = (line: number, start: number, size: number) => Math.abs(line - start) < 1e-6 || Math.abs(line - start - size) < 1e-6;
+  return {
+    area,
+    lines: {
+      x: lines.x.filter(line => onEdge(line, area.x, area.width)),
+      y: lines.y.filter(line => onEdge(line, area.y, area.height)),
+    },
+  };
+};
+
+// Moves the whole quad, snapping its bounding box like a rectangular area
+export const moveQuad = (
+  original: Quad,
+  dx: number,
+  dy: number,
+  targets: SnapLines | null,
+  threshold: SnapThreshold
+): QuadEditResult => {
+  const bounds = quadBounds(original);
+  const { area, lines } = moveArea(bounds, dx, dy, targets, threshold);
+  const shiftX = area.x - bounds.x;
+  const shiftY = area.y - bounds.y;
+  return { quad: original.map(p => ({ x: p.x + shiftX, y: p.y + shiftY })) as Quad, lines };
+};
+
+// Puts one corner at `point`; each axis snaps on its own, like a dragged edge
+export const moveQuadCorner = (
+  original: Quad,
+  index: number,
+  point: Point,
+  targets: SnapLines | null,
+  threshold: SnapThreshold
+): QuadEditResult => {
+  const lines: SnapLines = { x: [], y: [] };
+  const snap = (value: number, axis: 'x' | 'y') => {
+    const clamped = Math.max(0, Math.min(100, value));
+    const hit = targets ? findSnap([clamped], targets[axis], threshold[axis]) : null;
+    if (!hit) return clamped;
+    lines[axis].push(hit.line);
+    return hit.line;
+  };
+  const quad = original.map((p, i) => (i === index ? { x: snap(point.x, 'x'), y: snap(point.y, 'y') } : p)) as Quad;
+  return { quad, lines };
+};
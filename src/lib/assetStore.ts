@@ -0,0 +1,94 @@
+// Large binary assets (frame images) live in IndexedDB as Blobs; localStorage only keeps metadata
+
+const DB_NAME = 'qris-merger';
+const DB_VERSION = 1;
+const ASSET_STORE = 'assets';
+
+export class StorageQuotaError extends Error {
+  constructor() {
+    super('Penyimpanan browser penuh. Hapus template yang tidak dipakai atau gunakan gambar frame yang lebih kecil, lalu coba lagi.');
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  // Firefox reports NS_ERROR_DOM_QUOTA_REACHED, older engines only set the legacy code
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22);
+
+// Re-throws quota failures as StorageQuotaError so callers can show one clear message
+const rethrow = (error: unknown): never => {
+  throw isQuotaError(error) ? new StorageQuotaError() : error;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ASSET_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('IndexedDB tidak tersedia'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ASSET_STORE, mode);
+    const request = action(tx.objectStore(ASSET_STORE));
+    // Quota errors surface on the transaction, not the request, so settle on completion
+    tx.oncomplete = () => resolve(request.result);
+    tx.onabort = () => reject(tx.error ?? request.error);
+    tx.onerror = () => reject(tx.error ?? request.error);
+  });
+};
+
+export const putAsset = async (key: string, blob: Blob): Promise<void> => {
+  try {
+    await runTransaction('readwrite', store => store.put(blob, key));
+  } catch (error) {
+    rethrow(error);
+  }
+};
+
+export const getAsset = async (key: string): Promise<Blob | null> => {
+  const result = await runTransaction<Blob | undefined>('readonly', store => store.get(key));
+  return result ?? null;
+};
+
+export const deleteAsset = async (key: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(key));
+};
+
+export const setLocalItem = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch (error) {
+    rethrow(error);
+  }
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
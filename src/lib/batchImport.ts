@@ -0,0 +1,106 @@
+import { QRISImage } from '../types';
+import { detectDelimiter, parseDelimited } from './csv';
+import { analyzePayload } from './qrisImage';
+import { renderQrToBlob } from './qrRender';
+
+export interface BatchRow {
+  line: number;
+  payload: string;
+  label?: string;
+}
+
+export interface BatchRejection {
+  line: number;
+  payload: string;
+  reason: string;
+}
+
+export interface BatchParseResult {
+  rows: BatchRow[];
+  rejected: BatchRejection[];
+}
+
+const looksLikePayload = (value: string) => value.startsWith('000201');
+// Headings are short words; long or digit-heavy cells mean a broken data row, which must be reported
+const looksLikeHeading = (value: string) => value.length <= 40 && !/\d{6,}/.test(value);
+const PAYLOAD_HEADER = /payload|qris|qr/i;
+const LABEL_HEADER = /label|nama|name|merchant|keterangan|outlet/i;
+
+// A line holding one valid payload is a single column, even if its merchant name or city contains a delimiter
+const isWholePayload = (line: string) => looksLikePayload(line.trim()) && analyzePayload(line.trim()).status === 'valid';
+
+export const readBatchRows = (text: string): BatchParseResult => {
+  const lines = text.split(/\r?\n/);
+  const delimiter = detectDelimiter(lines.find(l => l.trim() && !isWholePayload(l)) ?? '');
+  const records = parseDelimited(text, delimiter).map(record =>
+    isWholePayload(lines[record.line - 1] ?? '') ? { ...record, cells: [lines[record.line - 1].trim()] } : record
+  );
+  const rows: BatchRow[] = [];
+  const rejected: BatchRejection[] = [];
+  if (records.length === 0) return { rows, rejected };
+
+  const first = records[0].cells;
+  const hasHeader = !first.some(looksLikePayload) && first.every(looksLikeHeading);
+  const header = hasHeader ? first : [];
+  const body = hasHeader ? records.slice(1) : records;
+
+  const sample = body.find(r => r.cells.some(looksLikePayload));
+  const sampleCol = sample ? sample.cells.findIndex(looksLikePayload) : -1;
+  // An exact "payload" heading wins. Looser ones such as "Nama QRIS" are often labels,
+  // so they only count when the data below them actually holds payloads.
+  let payloadCol = header.findIndex(h => h.trim().toLowerCase() === 'payload');
+  if (payloadCol < 0) {
+    payloadCol = header
+      .map((h, i) => (PAYLOAD_HEADER.test(h) ? i : -1))
+      .find(i => i >= 0 && (!sample || looksLikePayload(sample.cells[i] ?? ''))) ?? sampleCol;
+  }
+  if (payloadCol < 0) payloadCol = 0;
+
+  let labelCol = header.findIndex((h, i) => i !== payloadCol && LABEL_HEADER.test(h));
+  if (labelCol < 0) {
+    const width = Math.max(...body.map(r => r.cells.length));
+    labelCol = width > 1 ? (payloadCol === 0 ? 1 : 0) : -1;
+  }
+
+  for (const { line, cells } of body) {
+    const payload = (cells[payloadCol] ?? '').replace(/\s+$/, '');
+    const label = labelCol >= 0 ? cells[labelCol] || undefined : undefined;
+
+    if (!payload) {
+      rejected.push({ line, payload, reason: 'Kolom payload kosong' });
+      continue;
+    }
+
+    const analysis = analyzePayload(payload);
+    if (analysis.status !== 'valid') {
+      rejected.push({ line, payload, reason: analysis.error ?? 'Payload tidak valid' });
+      continue;
+    }
+
+    rows.push({ line, payload, label });
+  }
+
+  return { rows, rejected };
+};
+
+const toFileName = (label: string | undefined, line: number) =>
+  `${(label || 'qris').replace(/[^\w-]+/g, '_').slice(0, 40)}-${line}.png`;
+
+export const createImagesFromRows = async (rows: BatchRow[]): Promise<QRISImage[]> => {
+  const images: QRISImage[] = [];
+  for (const row of rows) {
+    const blob = await renderQrToBlob(row.payload, 'M');
+    const file = new File([blob], toFileName(row.label, row.line), { type: 'image/png' });
+    const url = URL.createObjectURL(file);
+    images.push({
+      id: Math.random().toString(36).substr(2, 9),
+      file,
+      source: url,
+      preview: url,
+      ...analyzePayload(row.payload),
+      ecLevel: 'M',
+      label: row.label,
+    });
+  }
+  return images;
+};
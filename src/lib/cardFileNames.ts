@@ -0,0 +1,55 @@
+import { MergedCard, QRISImage } from '../types';
+
+// File names for exported cards, built from a pattern such as "{merchant} - {nmid}"
+
+export const FILE_NAME_PATTERN_KEY = 'qris-merger-file-name-pattern';
+export const DEFAULT_FILE_NAME_PATTERN = '{index}-{merchant}';
+
+export const FILE_NAME_TOKENS: { token: string; label: string }[] = [
+  { token: '{merchant}', label: 'Nama merchant' },
+  { token: '{nmid}', label: 'NMID' },
+  { token: '{label}', label: 'Label gambar' },
+  { token: '{index}', label: 'Nomor urut kartu' },
+];
+
+// Characters Windows, macOS or chat apps refuse in file names; control characters are dropped separately
+const UNSAFE_CHARS = /[\\/:*?"<>|]/g;
+
+const sanitize = (name: string) =>
+  [...name]
+    .filter(char => char.charCodeAt(0) >= 32)
+    .join('')
+    .replace(UNSAFE_CHARS, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[-_ .]+|[-_ .]+$/g, '')
+    .slice(0, 100);
+
+// One name per card, without extension, unique regardless of case.
+// Multi-slot cards take their merchant, NMID and label from the upload in the first slot.
+export const buildCardFileNames = (cards: MergedCard[], images: QRISImage[], pattern: string): string[] => {
+  const digits = String(cards.length).length;
+  const used = new Set<string>();
+
+  return cards.map((card, i) => {
+    const image = images.find(img => img.id === card.imageIds[0]);
+    const index = String(i + 1).padStart(digits, '0');
+    const values: Record<string, string> = {
+      '{merchant}': image?.info?.merchantName ?? '',
+      '{nmid}': image?.info?.nmid ?? '',
+      '{label}': image?.label ?? '',
+      '{index}': index,
+    };
+    // A token that resolves to nothing takes its leading separator with it
+    const filled = pattern.replace(/([-_ ]*)(\{\w+\})/g, (match, separator: string, token: string) =>
+      token in values ? (values[token] ? separator + values[token] : '') : match
+    );
+    const base = sanitize(filled) || `kartu-${index}`;
+
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base}-${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
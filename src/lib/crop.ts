@@ -0,0 +1,55 @@
+import { AreaConfig } from '../components/AreaSelector';
+import { DecodedQr, loadImage } from './qrDecode';
+import { QUIET_ZONE_MODULES } from './qrRender';
+
+// Skip auto-crop when the code already fills most of the picture
+const MIN_CROP_GAIN = 0.85;
+
+// Bounding box of the detected symbol plus its quiet zone, as percentages of the image
+export const detectQrCrop = (decoded: DecodedQr, imageWidth: number, imageHeight: number): AreaConfig | undefined => {
+  const { topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner } = decoded.location;
+  const corners = [topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner];
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+
+  const dimension = 17 + 4 * decoded.version;
+  const side = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  const margin = (side / dimension) * QUIET_ZONE_MODULES;
+
+  const left = Math.max(0, Math.min(...xs) - margin);
+  const top = Math.max(0, Math.min(...ys) - margin);
+  const right = Math.min(imageWidth, Math.max(...xs) + margin);
+  const bottom = Math.min(imageHeight, Math.max(...ys) + margin);
+
+  const crop: AreaConfig = {
+    x: (left / imageWidth) * 100,
+    y: (top / imageHeight) * 100,
+    width: ((right - left) / imageWidth) * 100,
+    height: ((bottom - top) / imageHeight) * 100,
+  };
+
+  return (crop.width * crop.height) / 10000 > MIN_CROP_GAIN ? undefined : crop;
+};
+
+export const cropImage = async (src: string, crop: AreaConfig): Promise<Blob> => {
+  const img = await loadImage(src);
+  const sx = (crop.x / 100) * img.width;
+  const sy = (crop.y / 100) * img.height;
+  const sw = Math.max(1, Math.round((crop.width / 100) * img.width));
+  const sh = Math.max(1, Math.round((crop.height / 100) * img.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sw;
+  canvas.height = sh;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas tidak tersedia');
+
+  // Transparent screenshots get a white backdrop so the quiet zone stays light
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, sw, sh);
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Gagal memotong gambar'))), 'image/png');
+  });
+};
@@ -0,0 +1,10 @@
+// Saves a Blob through a temporary link. Revoking its URL right after the click can abort
+// the download in some browsers, so that waits a moment.
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
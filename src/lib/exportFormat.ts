@@ -0,0 +1,127 @@
+import { crc32 } from './zip';
+
+// Image format, quality and resolution of exported cards. Cards are merged as PNG;
+// other formats are produced from that PNG at download time.
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+// How card images are stored inside a PDF
+export type PdfImageMode = 'png' | 'jpeg';
+
+export interface ExportSettings {
+  format: ImageFormat;
+  quality: number; // 0–1, used by JPEG and WebP
+  dpi: number; // written into PNG and JPEG files
+  pdfImages: PdfImageMode;
+}
+
+export const EXPORT_SETTINGS_KEY = 'qris-merger-export-settings';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  quality: 0.92,
+  dpi: 300,
+  pdfImages: 'png',
+};
+
+export const IMAGE_FORMATS: { value: ImageFormat; label: string; mime: string; extension: string }[] = [
+  { value: 'png', label: 'PNG', mime: 'image/png', extension: 'png' },
+  { value: 'jpeg', label: 'JPEG', mime: 'image/jpeg', extension: 'jpg' },
+  { value: 'webp', label: 'WebP', mime: 'image/webp', extension: 'webp' },
+];
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const saved = localStorage.getItem(EXPORT_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_EXPORT_SETTINGS;
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+};
+
+// Draws the image again and encodes it; JPEG has no alpha, so transparency becomes white
+export const reencodeImage = async (source: Blob | HTMLCanvasElement, mime: string, quality: number): Promise<Blob> => {
+  const image = source instanceof Blob ? await createImageBitmap(source) : source;
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas tidak tersedia');
+  if (mime === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(image, 0, 0);
+  if (image instanceof ImageBitmap) image.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mime, quality));
+  // Browsers that cannot encode a format fall back to PNG, which would be mislabelled
+  if (!blob || blob.type !== mime) throw new Error(`Browser tidak mendukung format ${mime}`);
+  return blob;
+};
+
+// PNG: replace any pHYs chunk with one in pixels per metre, right after IHDR
+const setPngDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [bytes.subarray(0, 8)];
+  let pos = 8;
+  while (pos + 8 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const end = pos + 12 + length;
+    if (type !== 'pHYs') chunks.push(bytes.subarray(pos, end));
+    if (type === 'IHDR') {
+      const ppm = Math.round(dpi / 0.0254);
+      const chunk = new Uint8Array(21);
+      const chunkView = new DataView(chunk.buffer);
+      chunkView.setUint32(0, 9);
+      chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+      chunkView.setUint32(8, ppm);
+      chunkView.setUint32(12, ppm);
+      chunk[16] = 1; // unit: metre
+      chunkView.setUint32(17, crc32(chunk.subarray(4, 17)));
+      chunks.push(chunk);
+    }
+    pos = end;
+  }
+
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+// JPEG: set the density of the JFIF APP0 segment, adding one after SOI when the encoder left it out
+const setJpegDpi = (bytes: Uint8Array, dpi: number): Uint8Array => {
+  const density = Math.min(0xffff, Math.round(dpi));
+  const hasJfif = bytes[2] === 0xff && bytes[3] === 0xe0 &&
+    String.fromCharCode(...bytes.subarray(6, 11)) === 'JFIF\0';
+
+  const result = hasJfif ? bytes.slice() : new Uint8Array(bytes.length + 18);
+  if (!hasJfif) {
+    result.set(bytes.subarray(0, 2), 0);
+    result.set([0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01], 2);
+    result.set(bytes.subarray(2), 20);
+  }
+  const view = new DataView(result.buffer);
+  result[13] = 1; // unit: dots per inch
+  view.setUint16(14, density);
+  view.setUint16(16, density);
+  if (!hasJfif) {
+    result[18] = 0; // no thumbnail
+    result[19] = 0;
+  }
+  return result;
+};
+
+// A merged card as a file in the chosen format, with its DPI recorded where the format allows
+export const encodeCard = async (card: Blob, settings: ExportSettings): Promise<Uint8Array> => {
+  const { mime } = IMAGE_FORMATS.find(f => f.value === settings.format) ?? IMAGE_FORMATS[0];
+  const blob = mime === card.type ? card : await reencodeImage(card, mime, settings.quality);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (settings.format === 'png') return setPngDpi(bytes, settings.dpi);
+  if (settings.format === 'jpeg') return setJpegDpi(bytes, settings.dpi);
+  return bytes;
+};
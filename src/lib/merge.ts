@@ -0,0 +1,161 @@
+import { ScanCheck, VectorQr } from '../types';
+import { EcLevel, createQrMatrix, drawQrToCanvas, rotateQrMatrix } from './qrRender';
+import { TextField, drawTextField } from './textFields';
+import { Placement, drawPlacedImage, fillAreaBackground, insetArea, placeContent } from './placement';
+import { QrArea } from './templates';
+import { Quad, isConvexQuad, longestSide, warpImage } from './perspective';
+
+// Everything a card needs, resolved on the main thread so rendering can run in a worker
+
+export interface SlotJob {
+  // Object URL of the QR image to paste, or null when the symbol is regenerated from `payload`
+  imageUrl: string | null;
+  payload: string | null;
+  ecLevel: EcLevel;
+}
+
+export interface CardJob {
+  id: string;
+  imageIds: string[];
+  slots: SlotJob[];
+  // Resolved value per text field, in the same order as the template's textFields
+  texts: string[];
+}
+
+export interface MergeSettings {
+  areas: QrArea[];
+  placement: Placement;
+  textFields: TextField[];
+}
+
+export interface MergeRequest {
+  frameUrl: string;
+  settings: MergeSettings;
+  cards: CardJob[];
+}
+
+export interface RenderedCard {
+  id: string;
+  imageIds: string[];
+  blob: Blob;
+  width: number;
+  height: number;
+  vectorQrs: VectorQr[];
+  checks: ScanCheck[];
+}
+
+export type MergeResponse =
+  | { type: 'card'; index: number; card: RenderedCard }
+  | { type: 'error'; index: number; message: string }
+  | { type: 'done' };
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+type LoadedImage = CanvasImageSource & { width: number; height: number };
+
+// Bounds for the square the slot content is laid out on before warping
+const MIN_WARP_SOURCE = 64;
+const MAX_WARP_SOURCE = 2048;
+
+const createScratchContext = (width: number, height: number): Context2D | null => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true });
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext('2d', { willReadFrequently: true });
+};
+
+// Lays the slot out on a square as if the quad were seen head-on, then projects it onto the quad.
+// The square is as wide as the longest side so the warp never has to enlarge the modules.
+const drawWarpedSlot = async (
+  ctx: Context2D,
+  quad: Quad,
+  slot: SlotJob,
+  placement: Placement,
+  loadImage: (url: string) => Promise<LoadedImage>
+) => {
+  const size = Math.round(Math.min(MAX_WARP_SOURCE, Math.max(MIN_WARP_SOURCE, longestSide(quad))));
+  const scratch = createScratchContext(size, size);
+  if (!scratch) throw new Error('Canvas tidak tersedia');
+  const square = { x: 0, y: 0, width: size, height: size };
+  fillAreaBackground(scratch, square, placement);
+
+  if (!slot.imageUrl && slot.payload) {
+    const box = placeContent(1, 1, insetArea(square, placement.padding), { ...placement, fit: 'contain' });
+    const matrix = rotateQrMatrix(createQrMatrix(slot.payload, slot.ecLevel), placement.rotation);
+    drawQrToCanvas(scratch, matrix, box.x, box.y, box.width);
+  } else if (slot.imageUrl) {
+    const qrisImg = await loadImage(slot.imageUrl);
+    drawPlacedImage(scratch, qrisImg, qrisImg.width, qrisImg.height, square, placement);
+  }
+
+  warpImage(ctx, scratch.getImageData(0, 0, size, size), quad);
+};
+
+// Draws one card onto a context already sized to the frame and returns the QRs to overlay as vectors
+export const renderCard = async (
+  ctx: Context2D,
+  frame: LoadedImage,
+  job: CardJob,
+  settings: MergeSettings,
+  loadImage: (url: string) => Promise<LoadedImage>
+): Promise<VectorQr[]> => {
+  const { areas, placement, textFields } = settings;
+
+  ctx.clearRect(0, 0, frame.width, frame.height);
+  ctx.drawImage(frame, 0, 0);
+
+  const vectorQrs: VectorQr[] = [];
+
+  // The last card of a sequential batch may leave trailing slots empty
+  for (let slot = 0; slot < job.slots.length; slot++) {
+    const { imageUrl, payload, ecLevel } = job.slots[slot];
+    const area = areas[slot];
+
+    // Perspective slots are raster only: the PDF vector overlay can only draw upright squares
+    if (area.quad && isConvexQuad(area.quad)) {
+      const quad = area.quad.map(p => ({ x: (p.x / 100) * frame.width, y: (p.y / 100) * frame.height })) as Quad;
+      await drawWarpedSlot(ctx, quad, job.slots[slot], placement, loadImage);
+      continue;
+    }
+
+    const targetArea = {
+      x: (area.x / 100) * frame.width,
+      y: (area.y / 100) * frame.height,
+      width: (area.width / 100) * frame.width,
+      height: (area.height / 100) * frame.height,
+    };
+    fillAreaBackground(ctx, targetArea, placement);
+
+    if (!imageUrl && payload) {
+      // Redraw the symbol from its payload instead of scaling the screenshot.
+      // It always stays square and whole, so the fit mode does not apply here.
+      const box = placeContent(1, 1, insetArea(targetArea, placement.padding), { ...placement, fit: 'contain' });
+      const vectorQr: VectorQr = {
+        payload,
+        ecLevel,
+        x: box.x,
+        y: box.y,
+        size: box.width,
+        rotation: placement.rotation,
+      };
+      const matrix = rotateQrMatrix(createQrMatrix(vectorQr.payload, vectorQr.ecLevel), vectorQr.rotation);
+      drawQrToCanvas(ctx, matrix, vectorQr.x, vectorQr.y, vectorQr.size);
+      vectorQrs.push(vectorQr);
+      continue;
+    }
+
+    if (imageUrl) {
+      const qrisImg = await loadImage(imageUrl);
+      drawPlacedImage(ctx, qrisImg, qrisImg.width, qrisImg.height, targetArea, placement);
+    }
+  }
+
+  // Text regions on top of frame and QR
+  textFields.forEach((field, index) => {
+    drawTextField(ctx, field, job.texts[index] ?? '', frame.width, frame.height);
+  });
+
+  return vectorQrs;
+};
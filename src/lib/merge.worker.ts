@@ -0,0 +1,57 @@
+import { MergeRequest, MergeResponse, renderCard } from './merge';
+import { verifyCard } from './scanCheck';
+
+// The DOM lib has no DedicatedWorkerGlobalScope; Worker has the same message surface
+const scope = self as unknown as Worker;
+
+const post = (message: MergeResponse) => scope.postMessage(message);
+
+const loadBitmap = async (url: string) => createImageBitmap(await (await fetch(url)).blob());
+
+scope.onmessage = async (event: MessageEvent<MergeRequest>) => {
+  const { frameUrl, settings, cards } = event.data;
+  const failAll = (message: string) => {
+    cards.forEach((_, index) => post({ type: 'error', index, message }));
+    post({ type: 'done' });
+  };
+
+  let frame: ImageBitmap;
+  try {
+    frame = await loadBitmap(frameUrl);
+  } catch {
+    failAll('Gambar frame tidak dapat dibaca');
+    return;
+  }
+  const canvas = new OffscreenCanvas(frame.width, frame.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    failAll('OffscreenCanvas tidak tersedia');
+    return;
+  }
+
+  for (let index = 0; index < cards.length; index++) {
+    const job = cards[index];
+    const opened: ImageBitmap[] = [];
+    const loadSlotImage = async (url: string) => {
+      const bitmap = await loadBitmap(url);
+      opened.push(bitmap);
+      return bitmap;
+    };
+    try {
+      const vectorQrs = await renderCard(ctx, frame, job, settings, loadSlotImage);
+      const checks = verifyCard(ctx, frame.width, frame.height, job, settings);
+      const blob = await canvas.convertToBlob({ type: 'image/png' });
+      post({
+        type: 'card',
+        index,
+        card: { id: job.id, imageIds: job.imageIds, blob, width: frame.width, height: frame.height, vectorQrs, checks },
+      });
+    } catch (error) {
+      post({ type: 'error', index, message: error instanceof Error ? error.message : String(error) });
+    }
+    opened.forEach(bitmap => bitmap.close());
+  }
+
+  frame.close();
+  post({ type: 'done' });
+};
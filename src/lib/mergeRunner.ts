@@ -0,0 +1,70 @@
+import { MergeRequest, MergeResponse, renderCard } from './merge';
+import { verifyCard } from './scanCheck';
+import { loadImage } from './qrDecode';
+
+export const supportsWorkerMerge = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// Renders the cards in a worker and reports each one as it finishes. Returns a cancel function.
+export const startMerge = (request: MergeRequest, onMessage: (message: MergeResponse) => void): (() => void) => {
+  if (supportsWorkerMerge()) {
+    const worker = new Worker(new URL('./merge.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<MergeResponse>) => {
+      onMessage(event.data);
+      if (event.data.type === 'done') worker.terminate();
+    };
+    worker.onerror = (event) => {
+      console.error('Merge worker failed:', event.message);
+      worker.terminate();
+      onMessage({ type: 'done' });
+    };
+    worker.postMessage(request);
+    return () => worker.terminate();
+  }
+
+  // Browsers without OffscreenCanvas: same renderer on the main thread, yielding between cards
+  let cancelled = false;
+  runOnMainThread(request, message => {
+    if (!cancelled) onMessage(message);
+  }, () => cancelled);
+  return () => {
+    cancelled = true;
+  };
+};
+
+const runOnMainThread = async (
+  { frameUrl, settings, cards }: MergeRequest,
+  post: (message: MergeResponse) => void,
+  isCancelled: () => boolean
+) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  let frame: HTMLImageElement | null = null;
+  try {
+    frame = await loadImage(frameUrl);
+  } catch {
+    // Reported per card below
+  }
+
+  for (let index = 0; index < cards.length && !isCancelled(); index++) {
+    const job = cards[index];
+    try {
+      if (!ctx || !frame) throw new Error('Gambar frame tidak dapat dibaca');
+      canvas.width = frame.width;
+      canvas.height = frame.height;
+      const vectorQrs = await renderCard(ctx, frame, job, settings, loadImage);
+      const checks = verifyCard(ctx, frame.width, frame.height, job, settings);
+      const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Gagal membuat gambar kartu'))), 'image/png');
+      });
+      post({
+        type: 'card',
+        index,
+        card: { id: job.id, imageIds: job.imageIds, blob, width: frame.width, height: frame.height, vectorQrs, checks },
+      });
+    } catch (error) {
+      post({ type: 'error', index, message: error instanceof Error ? error.message : String(error) });
+    }
+    await new Promise(resolve => setTimeout(resolve));
+  }
+  post({ type: 'done' });
+};
@@ -0,0 +1,154 @@
+import { Rect } from './placement';
+
+// Paper, margins and grid for the print sheet; every length is in millimetres
+
+export type PaperId = 'a4' | 'f4' | 'a5' | 'letter' | 'sticker' | 'custom';
+export type Orientation = 'portrait' | 'landscape';
+
+export interface Margins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface PageSetup {
+  paper: PaperId;
+  // Only used with paper 'custom', given in portrait
+  customWidth: number;
+  customHeight: number;
+  orientation: Orientation;
+  margins: Margins;
+  gutter: number; // space between neighbouring cells
+  rows: number;
+  cols: number;
+}
+
+// Physical size of one printed card
+export interface CardSize {
+  width: number;
+  height: number;
+}
+
+export type CutGuideStyle = 'none' | 'hairline' | 'dashed';
+
+// Finishing aids for the print shop, drawn into the PDF only
+export interface PrintMarks {
+  cropMarks: boolean;
+  bleed: number; // how far the card artwork extends past its trim edge
+  cutGuides: CutGuideStyle;
+  slug: boolean; // template name and page number in the bottom margin
+}
+
+export const DEFAULT_PRINT_MARKS: PrintMarks = {
+  cropMarks: false,
+  bleed: 0,
+  cutGuides: 'none',
+  slug: false,
+};
+
+export const PAPER_SIZES: { id: PaperId; label: string; width: number; height: number }[] = [
+  { id: 'a4', label: 'A4 (210 × 297 mm)', width: 210, height: 297 },
+  { id: 'f4', label: 'F4 / Folio (215 × 330 mm)', width: 215, height: 330 },
+  { id: 'a5', label: 'A5 (148 × 210 mm)', width: 148, height: 210 },
+  { id: 'letter', label: 'Letter (216 × 279 mm)', width: 215.9, height: 279.4 },
+  { id: 'sticker', label: 'Stiker A3+ (329 × 483 mm)', width: 329, height: 483 },
+  { id: 'custom', label: 'Ukuran khusus', width: 210, height: 297 },
+];
+
+export const DEFAULT_PAGE_SETUP: PageSetup = {
+  paper: 'a4',
+  customWidth: 210,
+  customHeight: 297,
+  orientation: 'landscape',
+  margins: { top: 3, right: 3, bottom: 3, left: 3 },
+  gutter: 0,
+  rows: 1,
+  cols: 2,
+};
+
+// The fixed 1/2/4/6-per-page choices that existed before the page setup panel
+export const pageSetupForCount = (imagesPerPage: number): PageSetup => {
+  const cols = imagesPerPage === 1 ? 1 : imagesPerPage === 2 ? 2 : imagesPerPage === 4 ? 2 : 3;
+  return {
+    ...DEFAULT_PAGE_SETUP,
+    orientation: imagesPerPage >= 2 ? 'landscape' : 'portrait',
+    rows: Math.ceil(imagesPerPage / cols),
+    cols,
+  };
+};
+
+export const getPageSize = (setup: PageSetup): { width: number; height: number } => {
+  const paper = PAPER_SIZES.find(p => p.id === setup.paper) ?? PAPER_SIZES[0];
+  const width = setup.paper === 'custom' ? setup.customWidth : paper.width;
+  const height = setup.paper === 'custom' ? setup.customHeight : paper.height;
+  const short = Math.min(width, height);
+  const long = Math.max(width, height);
+  return setup.orientation === 'landscape' ? { width: long, height: short } : { width: short, height: long };
+};
+
+const getPrintableArea = (setup: PageSetup): Rect => {
+  const { width, height } = getPageSize(setup);
+  const { margins } = setup;
+  return {
+    x: margins.left,
+    y: margins.top,
+    width: width - margins.left - margins.right,
+    height: height - margins.top - margins.bottom,
+  };
+};
+
+// How many cards of a fixed size fit between the margins
+export const getCardGrid = (setup: PageSetup, cardSize: CardSize): { rows: number; cols: number } => {
+  const area = getPrintableArea(setup);
+  const fit = (space: number, size: number) => Math.max(0, Math.floor((space + setup.gutter) / (size + setup.gutter)));
+  return { rows: fit(area.height, cardSize.height), cols: fit(area.width, cardSize.width) };
+};
+
+// Cell rectangles of one sheet in row-major order. With a fixed card size every cell is exactly
+// that size and the block is centred on the printable area; otherwise rows × cols share the space.
+export const getGridCells = (setup: PageSetup, cardSize: CardSize | null = null): Rect[] => {
+  const area = getPrintableArea(setup);
+  const { gutter } = setup;
+
+  let rows = Math.max(1, setup.rows);
+  let cols = Math.max(1, setup.cols);
+  let cellWidth = Math.max(0, (area.width - gutter * (cols - 1)) / cols);
+  let cellHeight = Math.max(0, (area.height - gutter * (rows - 1)) / rows);
+  let originX = area.x;
+  let originY = area.y;
+
+  if (cardSize) {
+    ({ rows, cols } = getCardGrid(setup, cardSize));
+    cellWidth = cardSize.width;
+    cellHeight = cardSize.height;
+    originX += (area.width - (cols * cellWidth + (cols - 1) * gutter)) / 2;
+    originY += (area.height - (rows * cellHeight + (rows - 1) * gutter)) / 2;
+  }
+
+  const cells: Rect[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      cells.push({
+        x: originX + col * (cellWidth + gutter),
+        y: originY + row * (cellHeight + gutter),
+        width: cellWidth,
+        height: cellHeight,
+      });
+    }
+  }
+  return cells;
+};
+
+// Largest rectangle with the card's aspect ratio, centred in the cell
+export const fitCardInCell = (cardWidth: number, cardHeight: number, cell: Rect): Rect => {
+  const scale = Math.min(cell.width / cardWidth, cell.height / cardHeight);
+  const width = cardWidth * scale;
+  const height = cardHeight * scale;
+  return {
+    x: cell.x + (cell.width - width) / 2,
+    y: cell.y + (cell.height - height) / 2,
+    width,
+    height,
+  };
+};
@@ -0,0 +1,183 @@
+import { Rect } from './placement';
+
+// Four-corner placement areas and the projective warp that maps a square image onto them
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Top-left, top-right, bottom-right, bottom-left as seen on the frame
+export type Quad = [Point, Point, Point, Point];
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+export const rectToQuad = (rect: Rect): Quad => [
+  { x: rect.x, y: rect.y },
+  { x: rect.x + rect.width, y: rect.y },
+  { x: rect.x + rect.width, y: rect.y + rect.height },
+  { x: rect.x, y: rect.y + rect.height },
+];
+
+export const quadBounds = (quad: Quad): Rect => {
+  const xs = quad.map(p => p.x);
+  const ys = quad.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// A crossed or dented quad has no sensible projective mapping
+export const isConvexQuad = (quad: Quad): boolean => {
+  const turns = quad.map((p, i) => cross(p, quad[(i + 1) % 4], quad[(i + 2) % 4]));
+  return turns.every(turn => turn > 0) || turns.every(turn => turn < 0);
+};
+
+// Smallest interior angle in degrees; scanners struggle once the code is viewed very obliquely
+const minCornerAngle = (quad: Quad): number =>
+  Math.min(...quad.map((p, i) => {
+    const prev = quad[(i + 3) % 4];
+    const next = quad[(i + 1) % 4];
+    const a = Math.atan2(prev.y - p.y, prev.x - p.x);
+    const b = Math.atan2(next.y - p.y, next.x - p.x);
+    const angle = Math.abs(((b - a) * 180) / Math.PI) % 360;
+    return angle > 180 ? 360 - angle : angle;
+  }));
+
+// Shortest over longest of each pair of opposite sides; low values mean strong foreshortening
+const foreshortening = (quad: Quad): number => {
+  const side = (i: number) => Math.hypot(quad[(i + 1) % 4].x - quad[i].x, quad[(i + 1) % 4].y - quad[i].y);
+  return Math.min(
+    Math.min(side(0), side(2)) / Math.max(side(0), side(2)),
+    Math.min(side(1), side(3)) / Math.max(side(1), side(3))
+  );
+};
+
+export type QuadIssue = 'invalid' | 'steep';
+
+// Beyond these the warped modules get too thin for phone cameras to read reliably
+const MIN_SCANNABLE_ANGLE = 50;
+const MIN_SCANNABLE_FORESHORTENING = 0.5;
+
+// Expects corners in frame pixels, since percent units distort angles on non-square frames
+export const getQuadIssue = (quad: Quad): QuadIssue | null => {
+  if (!isConvexQuad(quad)) return 'invalid';
+  if (minCornerAngle(quad) < MIN_SCANNABLE_ANGLE || foreshortening(quad) < MIN_SCANNABLE_FORESHORTENING) return 'steep';
+  return null;
+};
+
+export const isQuad = (value: unknown): value is Quad =>
+  Array.isArray(value) &&
+  value.length === 4 &&
+  value.every(p => typeof p === 'object' && p !== null && typeof p.x === 'number' && typeof p.y === 'number');
+
+export const longestSide = (quad: Quad): number =>
+  Math.max(...quad.map((p, i) => Math.hypot(quad[(i + 1) % 4].x - p.x, quad[(i + 1) % 4].y - p.y)));
+
+// Projective map of the unit square onto the quad (Heckbert's closed form)
+const squareToQuad = ([p0, p1, p2, p3]: Quad): Matrix3 => {
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  if (Math.abs(dx3) < 1e-9 && Math.abs(dy3) < 1e-9) {
+    return [p1.x - p0.x, p3.x - p0.x, p0.x, p1.y - p0.y, p3.y - p0.y, p0.y, 0, 0, 1];
+  }
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / det;
+  const h = (dx1 * dy3 - dx3 * dy1) / det;
+  return [
+    p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+    p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+    g, h, 1,
+  ];
+};
+
+const invert = ([a, b, c, d, e, f, g, h, i]: Matrix3): Matrix3 => {
+  const A = e * i - f * h;
+  const B = f * g - d * i;
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  return [
+    A / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    C / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ];
+};
+
+// Samples per pixel along each axis; smooths the stair-steps on module and quad edges
+const SUPERSAMPLE = 2;
+
+// Paints the square `source` onto the quad (canvas pixels) of `ctx`, blending over what is there.
+// Every destination pixel is mapped back through the inverse homography and sampled bilinearly.
+export const warpImage = (ctx: Context2D, source: ImageData, quad: Quad) => {
+  const bounds = quadBounds(quad);
+  const left = Math.max(0, Math.floor(bounds.x));
+  const top = Math.max(0, Math.floor(bounds.y));
+  const right = Math.min(ctx.canvas.width, Math.ceil(bounds.x + bounds.width));
+  const bottom = Math.min(ctx.canvas.height, Math.ceil(bounds.y + bounds.height));
+  if (right <= left || bottom <= top) return;
+
+  const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = invert(squareToQuad(quad));
+  const { data: src, width: sw, height: sh } = source;
+  const target = ctx.getImageData(left, top, right - left, bottom - top);
+  const dst = target.data;
+  const samples = SUPERSAMPLE * SUPERSAMPLE;
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      // Premultiplied sums over the sub-samples
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+          const px = x + (sx + 0.5) / SUPERSAMPLE;
+          const py = y + (sy + 0.5) / SUPERSAMPLE;
+          const w = m6 * px + m7 * py + m8;
+          const u = ((m0 * px + m1 * py + m2) / w) * sw - 0.5;
+          const v = ((m3 * px + m4 * py + m5) / w) * sh - 0.5;
+          if (u < -0.5 || v < -0.5 || u > sw - 0.5 || v > sh - 0.5) continue;
+
+          const x0 = Math.max(0, Math.floor(u));
+          const y0 = Math.max(0, Math.floor(v));
+          const x1 = Math.min(sw - 1, x0 + 1);
+          const y1 = Math.min(sh - 1, y0 + 1);
+          const fx = Math.min(1, Math.max(0, u - x0));
+          const fy = Math.min(1, Math.max(0, v - y0));
+          const corners: [number, number][] = [
+            [(y0 * sw + x0) * 4, (1 - fx) * (1 - fy)],
+            [(y0 * sw + x1) * 4, fx * (1 - fy)],
+            [(y1 * sw + x0) * 4, (1 - fx) * fy],
+            [(y1 * sw + x1) * 4, fx * fy],
+          ];
+          for (const [i, weight] of corners) {
+            const alpha = (src[i + 3] / 255) * weight;
+            r += src[i] * alpha;
+            g += src[i + 1] * alpha;
+            b += src[i + 2] * alpha;
+            a += alpha;
+          }
+        }
+      }
+      if (a === 0) continue;
+
+      // Source over destination
+      const coverage = a / samples;
+      const i = ((y - top) * (right - left) + (x - left)) * 4;
+      const below = (dst[i + 3] / 255) * (1 - coverage);
+      const out = coverage + below;
+      dst[i] = ((r / samples) + dst[i] * below) / out;
+      dst[i + 1] = ((g / samples) + dst[i + 1] * below) / out;
+      dst[i + 2] = ((b / samples) + dst[i + 2] * below) / out;
+      dst[i + 3] = out * 255;
+    }
+  }
+  ctx.putImageData(target, left, top);
+};
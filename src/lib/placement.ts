@@ -0,0 +1,121 @@
+// How a QR image sits inside its area: fit, inner padding, anchor, rotation and a fill behind it
+
+export type FitMode = 'contain' | 'cover' | 'stretch';
+export type Anchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface Placement {
+  fit: FitMode;
+  padding: number; // percent of the area's shorter side, on every edge
+  anchor: Anchor;
+  rotation: Rotation; // clockwise
+  background: string | null; // fill colour for the whole area, transparent when null
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_PLACEMENT: Placement = {
+  fit: 'contain',
+  padding: 0,
+  anchor: 'center',
+  rotation: 0,
+  background: null,
+};
+
+export const FIT_MODES: { value: FitMode; label: string }[] = [
+  { value: 'contain', label: 'Muat utuh (contain)' },
+  { value: 'cover', label: 'Penuhi area (cover)' },
+  { value: 'stretch', label: 'Regangkan (stretch)' },
+];
+
+// Row-major 3×3 grid, as laid out in the anchor picker
+export const ANCHORS: Anchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+export const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+
+const anchorFactors = (anchor: Anchor): { fx: number; fy: number } => ({
+  fx: anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? 1 : 0.5,
+  fy: anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5,
+});
+
+export const insetArea = (area: Rect, padding: number): Rect => {
+  const inset = Math.min((Math.min(area.width, area.height) * padding) / 100, area.width / 2, area.height / 2);
+  return {
+    x: area.x + inset,
+    y: area.y + inset,
+    width: area.width - inset * 2,
+    height: area.height - inset * 2,
+  };
+};
+
+// Box the rotated content occupies inside `inner`. With cover it can overflow and must be clipped to `inner`.
+export const placeContent = (contentWidth: number, contentHeight: number, inner: Rect, placement: Placement): Rect => {
+  const quarterTurn = placement.rotation === 90 || placement.rotation === 270;
+  const width = quarterTurn ? contentHeight : contentWidth;
+  const height = quarterTurn ? contentWidth : contentHeight;
+
+  let boxWidth = inner.width;
+  let boxHeight = inner.height;
+  if (placement.fit !== 'stretch') {
+    const scaleX = inner.width / width;
+    const scaleY = inner.height / height;
+    const scale = placement.fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    boxWidth = width * scale;
+    boxHeight = height * scale;
+  }
+
+  const { fx, fy } = anchorFactors(placement.anchor);
+  return {
+    x: inner.x + (inner.width - boxWidth) * fx,
+    y: inner.y + (inner.height - boxHeight) * fy,
+    width: boxWidth,
+    height: boxHeight,
+  };
+};
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const fillAreaBackground = (ctx: Context2D, area: Rect, placement: Placement) => {
+  if (!placement.background) return;
+  ctx.save();
+  ctx.fillStyle = placement.background;
+  ctx.fillRect(area.x, area.y, area.width, area.height);
+  ctx.restore();
+};
+
+// Draws an image into `area` following the placement; the caller fills the background first
+export const drawPlacedImage = (
+  ctx: Context2D,
+  image: CanvasImageSource,
+  imageWidth: number,
+  imageHeight: number,
+  area: Rect,
+  placement: Placement
+) => {
+  const inner = insetArea(area, placement.padding);
+  const box = placeContent(imageWidth, imageHeight, inner, placement);
+  const quarterTurn = placement.rotation === 90 || placement.rotation === 270;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(inner.x, inner.y, inner.width, inner.height);
+  ctx.clip();
+  ctx.translate(box.x + box.width / 2, box.y + box.height / 2);
+  ctx.rotate((placement.rotation * Math.PI) / 180);
+  const drawWidth = quarterTurn ? box.height : box.width;
+  const drawHeight = quarterTurn ? box.width : box.height;
+  ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  ctx.restore();
+};
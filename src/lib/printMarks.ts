@@ -0,0 +1,111 @@
+import type jsPDF from 'jspdf';
+import { Rect } from './placement';
+import { CutGuideStyle } from './pageSetup';
+
+// PDF finishing aids; all lengths in millimetres
+
+const HAIRLINE = 0.1;
+const CROP_MARK_LENGTH = 4;
+const CROP_MARK_OFFSET = 1; // gap between the trim (or bleed) edge and the start of a mark
+
+// Whether the point lies on the card's artwork, including its bleed
+const contains = (rect: Rect, bleed: number, x: number, y: number) =>
+  x > rect.x - bleed && x < rect.x + rect.width + bleed && y > rect.y - bleed && y < rect.y + rect.height + bleed;
+
+// Short lines outside each corner, in line with the trim edges.
+// Marks that would land on a neighbouring card or its bleed are skipped.
+export const drawCropMarks = (pdf: jsPDF, cards: Rect[], bleed: number) => {
+  pdf.setDrawColor(0, 0, 0);
+  pdf.setLineWidth(HAIRLINE);
+  pdf.setLineDashPattern([], 0);
+
+  const start = bleed + CROP_MARK_OFFSET;
+  const end = start + CROP_MARK_LENGTH;
+  const clear = (x1: number, y1: number, x2: number, y2: number) =>
+    !cards.some(card => contains(card, bleed, (x1 + x2) / 2, (y1 + y2) / 2));
+
+  for (const card of cards) {
+    const left = card.x;
+    const right = card.x + card.width;
+    const top = card.y;
+    const bottom = card.y + card.height;
+    const segments: [number, number, number, number][] = [
+      // Horizontal marks at top and bottom edges, left and right of the card
+      [left - end, top, left - start, top],
+      [right + start, top, right + end, top],
+      [left - end, bottom, left - start, bottom],
+      [right + start, bottom, right + end, bottom],
+      // Vertical marks at left and right edges, above and below the card
+      [left, top - end, left, top - start],
+      [right, top - end, right, top - start],
+      [left, bottom + start, left, bottom + end],
+      [right, bottom + start, right, bottom + end],
+    ];
+    for (const [x1, y1, x2, y2] of segments) {
+      if (clear(x1, y1, x2, y2)) pdf.line(x1, y1, x2, y2);
+    }
+  }
+};
+
+// Full-length lines through every card edge; drawn before the cards so they only show in the gaps
+export const drawCutGuides = (pdf: jsPDF, cards: Rect[], pageWidth: number, pageHeight: number, style: CutGuideStyle) => {
+  if (style === 'none') return;
+  pdf.setDrawColor(160, 160, 160);
+  pdf.setLineWidth(HAIRLINE);
+  pdf.setLineDashPattern(style === 'dashed' ? [2, 1.5] : [], 0);
+
+  const unique = (values: number[]) => [...new Set(values.map(v => Math.round(v * 100) / 100))];
+  for (const x of unique(cards.flatMap(card => [card.x, card.x + card.width]))) {
+    pdf.line(x, 0, x, pageHeight);
+  }
+  for (const y of unique(cards.flatMap(card => [card.y, card.y + card.height]))) {
+    pdf.line(0, y, pageWidth, y);
+  }
+  pdf.setLineDashPattern([], 0);
+};
+
+// Info line with a registration target, centred in the bottom margin
+export const drawSlug = (pdf: jsPDF, text: string, pageWidth: number, pageHeight: number, bottomMargin: number) => {
+  const y = pageHeight - Math.max(1.5, bottomMargin / 2);
+  const radius = 1.2;
+
+  pdf.setFontSize(6);
+  pdf.setTextColor(90, 90, 90);
+  pdf.text(text, pageWidth / 2, y, { align: 'center', baseline: 'middle' });
+
+  const targetX = pageWidth / 2 + pdf.getTextWidth(text) / 2 + 4;
+  pdf.setDrawColor(0, 0, 0);
+  pdf.setLineWidth(HAIRLINE);
+  pdf.setLineDashPattern([], 0);
+  pdf.circle(targetX, y, radius, 'S');
+  pdf.line(targetX - radius * 1.6, y, targetX + radius * 1.6, y);
+  pdf.line(targetX, y - radius * 1.6, targetX, y + radius * 1.6);
+};
+
+// Card image grown by `bleedPx` on every side by stretching its outermost pixels outward
+export const extendBleed = async (blob: Blob, bleedPx: number): Promise<HTMLCanvasElement> => {
+  const image = await createImageBitmap(blob);
+  const { width, height } = image;
+  const b = Math.max(1, Math.round(bleedPx));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width + b * 2;
+  canvas.height = height + b * 2;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas tidak tersedia');
+
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(image, b, b);
+  // Edges
+  ctx.drawImage(image, 0, 0, width, 1, b, 0, width, b);
+  ctx.drawImage(image, 0, height - 1, width, 1, b, height + b, width, b);
+  ctx.drawImage(image, 0, 0, 1, height, 0, b, b, height);
+  ctx.drawImage(image, width - 1, 0, 1, height, width + b, b, b, height);
+  // Corners
+  ctx.drawImage(image, 0, 0, 1, 1, 0, 0, b, b);
+  ctx.drawImage(image, width - 1, 0, 1, 1, width + b, 0, b, b);
+  ctx.drawImage(image, 0, height - 1, 1, 1, 0, height + b, b, b);
+  ctx.drawImage(image, width - 1, height - 1, 1, 1, width + b, height + b, b, b);
+  image.close();
+  return canvas;
+};
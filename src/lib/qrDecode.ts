@@ -0,0 +1,130 @@
+import jsQR, { QRCode } from 'jsqr';
+import { EcLevel } from './qrRender';
+
+export type QrLocation = QRCode['location'];
+
+export interface DecodedQr {
+  data: string;
+  version: number;
+  location: QrLocation;
+  ecLevel: EcLevel | null;
+}
+
+// jsQR gets slow on full-resolution phone screenshots; scan a downscaled copy
+const MAX_SCAN_SIZE = 1600;
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+};
+
+// Format information: 2 EC bits + 3 mask bits, BCH(15,5) protected and XOR-masked
+const FORMAT_MASK = 0x5412;
+const EC_LEVEL_BY_BITS: EcLevel[] = ['M', 'L', 'H', 'Q'];
+
+const encodeFormatInfo = (data: number): number => {
+  let rem = data << 10;
+  for (let bit = 14; bit >= 10; bit--) {
+    if (rem & (1 << bit)) rem ^= 0x537 << (bit - 10);
+  }
+  return ((data << 10) | rem) ^ FORMAT_MASK;
+};
+
+const FORMAT_CODES = Array.from({ length: 32 }, (_, data) => encodeFormatInfo(data));
+
+const bitCount = (n: number): number => {
+  let count = 0;
+  while (n) {
+    count += n & 1;
+    n >>>= 1;
+  }
+  return count;
+};
+
+// jsQR does not report the error-correction level, so read the format bits next to
+// the top-left finder pattern ourselves by sampling the module grid spanned by the corners.
+const readEcLevel = (imageData: ImageData, result: QRCode): EcLevel | null => {
+  const dimension = 17 + 4 * result.version;
+  const { topLeftCorner: tl, topRightCorner: tr, bottomLeftCorner: bl, bottomRightCorner: br } = result.location;
+
+  const luminanceAt = (col: number, row: number): number => {
+    const u = (col + 0.5) / dimension;
+    const v = (row + 0.5) / dimension;
+    const px = (1 - v) * ((1 - u) * tl.x + u * tr.x) + v * ((1 - u) * bl.x + u * br.x);
+    const py = (1 - v) * ((1 - u) * tl.y + u * tr.y) + v * ((1 - u) * bl.y + u * br.y);
+    const x = Math.min(imageData.width - 1, Math.max(0, Math.round(px)));
+    const y = Math.min(imageData.height - 1, Math.max(0, Math.round(py)));
+    const i = (y * imageData.width + x) * 4;
+    return 0.299 * imageData.data[i] + 0.587 * imageData.data[i + 1] + 0.114 * imageData.data[i + 2];
+  };
+
+  // The centre of the finder pattern is always dark; use it to tell normal from inverted codes
+  const darkIsLow = luminanceAt(3, 3) < 128;
+  const isDark = (col: number, row: number) => (luminanceAt(col, row) < 128) === darkIsLow;
+
+  const positions: [number, number][] = [
+    [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8],
+    [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0],
+  ];
+  const bits = positions.reduce((acc, [col, row]) => (acc << 1) | (isDark(col, row) ? 1 : 0), 0);
+
+  let bestData = -1;
+  let bestDistance = Infinity;
+  FORMAT_CODES.forEach((code, data) => {
+    const distance = bitCount(code ^ bits);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestData = data;
+    }
+  });
+
+  // BCH(15,5) corrects up to 3 bit errors; anything worse is a misread
+  if (bestDistance > 3) return null;
+  return EC_LEVEL_BY_BITS[bestData >> 3];
+};
+
+export const decodeQrFromImage = (img: HTMLImageElement): DecodedQr | null => {
+  const scale = Math.min(1, MAX_SCAN_SIZE / Math.max(img.width, img.height));
+  const width = Math.round(img.width * scale);
+  const height = Math.round(img.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  // Transparent PNGs decode as black-on-black without a white backdrop
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const result = jsQR(imageData.data, width, height);
+  if (!result) return null;
+
+  // Map the location back to source image pixels
+  const location = Object.fromEntries(
+    Object.entries(result.location).map(([key, point]) => [
+      key,
+      { x: point.x / scale, y: point.y / scale },
+    ])
+  ) as QrLocation;
+
+  return {
+    data: result.data,
+    version: result.version,
+    location,
+    ecLevel: readEcLevel(imageData, result),
+  };
+};
+
+export const decodeQrFromUrl = async (src: string): Promise<DecodedQr | null> => {
+  const img = await loadImage(src);
+  return decodeQrFromImage(img);
+};
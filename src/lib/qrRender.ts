@@ -0,0 +1,130 @@
+import QRCode from 'qrcode';
+import type jsPDF from 'jspdf';
+import type { Rotation } from './placement';
+
+export type EcLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrMatrix {
+  size: number;
+  isDark: (row: number, col: number) => boolean;
+}
+
+// ISO 18004 asks for at least 4 light modules around the symbol
+export const QUIET_ZONE_MODULES = 4;
+
+export const createQrMatrix = (payload: string, ecLevel: EcLevel = 'M'): QrMatrix => {
+  const { modules } = QRCode.create(payload, { errorCorrectionLevel: ecLevel });
+  return {
+    size: modules.size,
+    isDark: (row, col) => modules.get(row, col) === 1,
+  };
+};
+
+// Turns the symbol clockwise by whole quarter turns; readers accept any orientation
+export const rotateQrMatrix = (matrix: QrMatrix, rotation: Rotation): QrMatrix => {
+  const last = matrix.size - 1;
+  switch (rotation) {
+    case 90:
+      return { size: matrix.size, isDark: (row, col) => matrix.isDark(last - col, row) };
+    case 180:
+      return { size: matrix.size, isDark: (row, col) => matrix.isDark(last - row, last - col) };
+    case 270:
+      return { size: matrix.size, isDark: (row, col) => matrix.isDark(col, last - row) };
+    default:
+      return matrix;
+  }
+};
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Draws the symbol plus quiet zone into a square of `size` px at (x, y).
+// Module edges are snapped to whole pixels so neighbouring modules never leave hairline seams.
+export const drawQrToCanvas = (
+  ctx: Context2D,
+  matrix: QrMatrix,
+  x: number,
+  y: number,
+  size: number
+) => {
+  const total = matrix.size + QUIET_ZONE_MODULES * 2;
+  const moduleSize = size / total;
+  const edge = (origin: number, index: number) => Math.round(origin + index * moduleSize);
+
+  ctx.save();
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(Math.round(x), Math.round(y), Math.round(size), Math.round(size));
+  ctx.fillStyle = '#000000';
+  for (let row = 0; row < matrix.size; row++) {
+    const top = edge(y, row + QUIET_ZONE_MODULES);
+    const bottom = edge(y, row + QUIET_ZONE_MODULES + 1);
+    for (let col = 0; col < matrix.size; col++) {
+      if (!matrix.isDark(row, col)) continue;
+      const left = edge(x, col + QUIET_ZONE_MODULES);
+      const right = edge(x, col + QUIET_ZONE_MODULES + 1);
+      ctx.fillRect(left, top, right - left, bottom - top);
+    }
+  }
+  ctx.restore();
+};
+
+// Same layout as drawQrToCanvas but in PDF units, as filled vector rectangles.
+// Horizontal runs of dark modules are merged to keep the path count down.
+export const drawQrToPdf = (
+  pdf: jsPDF,
+  matrix: QrMatrix,
+  x: number,
+  y: number,
+  size: number
+) => {
+  const total = matrix.size + QUIET_ZONE_MODULES * 2;
+  const moduleSize = size / total;
+
+  pdf.setFillColor(255, 255, 255);
+  pdf.rect(x, y, size, size, 'F');
+  pdf.setFillColor(0, 0, 0);
+
+  for (let row = 0; row < matrix.size; row++) {
+    let col = 0;
+    while (col < matrix.size) {
+      if (!matrix.isDark(row, col)) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < matrix.size && matrix.isDark(row, col)) col++;
+      pdf.rect(
+        x + (start + QUIET_ZONE_MODULES) * moduleSize,
+        y + (row + QUIET_ZONE_MODULES) * moduleSize,
+        (col - start) * moduleSize,
+        // Slight vertical overlap hides anti-aliasing gaps between rows in PDF viewers
+        moduleSize * 1.02,
+        'F'
+      );
+    }
+  }
+};
+
+// Standalone PNG of the symbol, used where a payload has no source screenshot
+export const renderQrToBlob = (payload: string, ecLevel: EcLevel = 'M', size = 800): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas tidak tersedia'));
+
+  drawQrToCanvas(ctx, createQrMatrix(payload, ecLevel), 0, 0, size);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Gagal membuat gambar QR'))), 'image/png');
+  });
+};
+
+// Inline PNG of a symbol, for small UI previews
+export const renderQrToDataUrl = (payload: string, ecLevel: EcLevel = 'M', size = 200): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  drawQrToCanvas(ctx, createQrMatrix(payload, ecLevel), 0, 0, size);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,185 @@
+// EMVCo merchant-presented QR (QRIS) payload helpers.
+// A payload is a flat list of TLV fields: 2-digit tag, 2-digit length, value.
+
+export interface TlvField {
+  tag: string;
+  value: string;
+}
+
+export interface QrisInfo {
+  merchantName: string;
+  merchantCity: string;
+  nmid: string | null;
+  acquirer: string | null;
+  isDynamic: boolean;
+  crc: string;
+  crcValid: boolean;
+}
+
+// Tags whose value is itself a TLV list (merchant account info + additional data)
+const isTemplateTag = (tag: string): boolean => {
+  const n = Number(tag);
+  return (n >= 26 && n <= 51) || n === 62 || n === 64;
+};
+
+export const parseTlv = (data: string): TlvField[] => {
+  const fields: TlvField[] = [];
+  let pos = 0;
+
+  while (pos < data.length) {
+    const tag = data.substr(pos, 2);
+    const lengthStr = data.substr(pos + 2, 2);
+    if (!/^\d{2}$/.test(tag) || !/^\d{2}$/.test(lengthStr)) {
+      throw new Error(`Struktur TLV rusak pada posisi ${pos}`);
+    }
+    const length = Number(lengthStr);
+    const value = data.substr(pos + 4, length);
+    if (value.length !== length) {
+      throw new Error(`Panjang tag ${tag} tidak sesuai (${value.length}/${length})`);
+    }
+    fields.push({ tag, value });
+    pos += 4 + length;
+  }
+
+  return fields;
+};
+
+export const getField = (fields: TlvField[], tag: string): string | undefined =>
+  fields.find(f => f.tag === tag)?.value;
+
+// CRC16-CCITT (poly 0x1021, init 0xFFFF), as required by EMVCo tag 63
+export const crc16 = (data: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// "ID.CO.BANKMANDIRI.WWW" -> "BANKMANDIRI", "ID.DANA.WWW" -> "DANA"
+const acquirerFromDomain = (domain: string): string => {
+  const parts = domain.split('.').filter(p => !['ID', 'CO', 'WWW', 'COM'].includes(p));
+  return parts[0] ?? domain;
+};
+
+export const parseQris = (payload: string): QrisInfo => {
+  const data = payload.trim();
+  const fields = parseTlv(data);
+
+  if (getField(fields, '00') !== '01') {
+    throw new Error('Bukan payload QRIS (Payload Format Indicator tidak valid)');
+  }
+
+  const crcField = fields[fields.length - 1];
+  if (!crcField || crcField.tag !== '63' || crcField.value.length !== 4) {
+    throw new Error('Tag CRC (63) tidak ditemukan di akhir payload');
+  }
+
+  let nmid: string | null = null;
+  let acquirer: string | null = null;
+  for (const field of fields) {
+    if (!isTemplateTag(field.tag) || Number(field.tag) > 51) continue;
+    const sub = parseTlv(field.value);
+    const domain = getField(sub, '00') ?? '';
+    if (field.tag === '51' || domain === 'ID.CO.QRIS.WWW') {
+      nmid = getField(sub, '02') ?? nmid;
+    } else if (!acquirer && domain) {
+      acquirer = acquirerFromDomain(domain);
+    }
+  }
+
+  const crc = crcField.value.toUpperCase();
+  const crcValid = crc16(data.slice(0, -4)) === crc;
+
+  return {
+    merchantName: getField(fields, '59') ?? '',
+    merchantCity: getField(fields, '60') ?? '',
+    nmid,
+    acquirer,
+    isDynamic: getField(fields, '01') === '12',
+    crc,
+    crcValid,
+  };
+};
+
+export type TipMode = 'none' | 'prompt' | 'fixed' | 'percent';
+
+export interface DynamicAmount {
+  amount: number;
+  tipMode: TipMode;
+  // Rupiah for 'fixed', percent for 'percent'
+  tipValue?: number;
+}
+
+const AMOUNT_TAGS = ['54', '55', '56', '57'];
+
+export const serializeTlv = (fields: TlvField[]): string =>
+  fields
+    .map(({ tag, value }) => `${tag}${value.length.toString().padStart(2, '0')}${value}`)
+    .join('');
+
+// Appends tag 63 with the CRC computed over everything before it, "6304" included
+export const appendCrc = (body: string): string => {
+  const withTag = `${body}6304`;
+  return withTag + crc16(withTag);
+};
+
+const formatAmount = (value: number): string => {
+  const rounded = Math.round(value * 100) / 100;
+  return Number.isInteger(rounded) ? rounded.toString() : rounded.toFixed(2);
+};
+
+// EMVCo maximum lengths of the amount (54) and fee (56, 57) values
+const MAX_AMOUNT_LENGTH = 13;
+const MAX_PERCENT_LENGTH = 5;
+
+// Plain digits only: huge numbers would otherwise format in exponent notation
+const fitsLength = (value: string, maxLength: number) => value.length <= maxLength && /^\d+(\.\d+)?$/.test(value);
+
+// Turns a (static) payload into a dynamic one with a fixed transaction amount and
+// optional tip indicator (55) plus fixed (56) or percentage (57) convenience fee.
+export const toDynamicQris = (payload: string, { amount, tipMode, tipValue }: DynamicAmount): string => {
+  const amountValue = formatAmount(amount);
+  if (!(Number(amountValue) > 0)) {
+    throw new Error('Nominal harus lebih dari 0');
+  }
+  if (!fitsLength(amountValue, MAX_AMOUNT_LENGTH)) {
+    throw new Error(`Nominal terlalu besar (maksimal ${MAX_AMOUNT_LENGTH} karakter)`);
+  }
+
+  // A requested fee is never dropped silently
+  const feeValue = tipMode === 'fixed' || tipMode === 'percent' ? formatAmount(tipValue ?? 0) : '';
+  if (feeValue && !(Number(feeValue) > 0)) {
+    throw new Error('Biaya layanan harus lebih dari 0');
+  }
+  if (tipMode === 'percent' && Number(feeValue) > 100) {
+    throw new Error('Persentase biaya maksimal 100%');
+  }
+  if (feeValue && !fitsLength(feeValue, tipMode === 'percent' ? MAX_PERCENT_LENGTH : MAX_AMOUNT_LENGTH)) {
+    throw new Error('Biaya layanan terlalu besar');
+  }
+
+  const fields = parseTlv(payload.trim()).filter(f => f.tag !== '63' && !AMOUNT_TAGS.includes(f.tag));
+  const next: TlvField[] = fields.map(f => (f.tag === '01' ? { tag: '01', value: '12' } : f));
+  if (!next.some(f => f.tag === '01')) {
+    next.push({ tag: '01', value: '12' });
+  }
+
+  next.push({ tag: '54', value: amountValue });
+  if (tipMode === 'prompt') {
+    next.push({ tag: '55', value: '01' });
+  } else if (tipMode === 'fixed') {
+    next.push({ tag: '55', value: '02' }, { tag: '56', value: feeValue });
+  } else if (tipMode === 'percent') {
+    next.push({ tag: '55', value: '03' }, { tag: '57', value: feeValue });
+  }
+
+  next.sort((a, b) => Number(a.tag) - Number(b.tag));
+  return appendCrc(serializeTlv(next));
+};
+
+export const formatRupiah = (value: number): string =>
+  `Rp ${value.toLocaleString('id-ID')}`;
@@ -0,0 +1,67 @@
+import { QRISImage } from '../types';
+import { AreaConfig } from '../components/AreaSelector';
+import { parseQris, toDynamicQris } from './qris';
+import { decodeQrFromImage, loadImage } from './qrDecode';
+import { cropImage, detectQrCrop } from './crop';
+
+type QrisAnalysis = Pick<QRISImage, 'status' | 'payload' | 'info' | 'ecLevel' | 'error' | 'crop'>;
+
+export const analyzePayload = (payload: string): QrisAnalysis => {
+  try {
+    const info = parseQris(payload);
+    return {
+      status: info.crcValid ? 'valid' : 'bad-crc',
+      payload,
+      info,
+      error: info.crcValid ? undefined : `CRC tidak cocok (${info.crc})`,
+    };
+  } catch (error) {
+    return {
+      status: 'invalid',
+      payload,
+      error: error instanceof Error ? error.message : 'Payload tidak valid',
+    };
+  }
+};
+
+export const analyzeQrisImage = async (src: string): Promise<QrisAnalysis> => {
+  try {
+    const img = await loadImage(src);
+    const decoded = decodeQrFromImage(img);
+    if (!decoded) {
+      return { status: 'no-qr', error: 'QR tidak terbaca' };
+    }
+    return {
+      ...analyzePayload(decoded.data),
+      ecLevel: decoded.ecLevel ?? undefined,
+      crop: detectQrCrop(decoded, img.width, img.height),
+    };
+  } catch {
+    return { status: 'no-qr', error: 'Gambar tidak dapat dibaca' };
+  }
+};
+
+// Object URL of the cropped image, or the source itself when there is nothing to crop
+export const createPreview = async (source: string, crop: AreaConfig | undefined): Promise<string> => {
+  if (!crop) return source;
+  return URL.createObjectURL(await cropImage(source, crop));
+};
+
+export const revokeQrisImage = (img: QRISImage) => {
+  if (img.preview !== img.source) {
+    URL.revokeObjectURL(img.preview);
+  }
+  URL.revokeObjectURL(img.source);
+};
+
+export const isMergeable = (img: QRISImage): boolean => img.status === 'valid';
+
+// Each upload repeated by its copy count, keeping the list order
+export const expandCopies = (images: QRISImage[]): QRISImage[] =>
+  images.flatMap(img => Array.from({ length: Math.max(1, img.copies ?? 1) }, () => img));
+
+// Payload that should end up on the card, after any static-to-dynamic conversion
+export const getEffectivePayload = (img: QRISImage): string | undefined => {
+  if (!img.payload) return undefined;
+  return img.dynamicAmount ? toDynamicQris(img.payload, img.dynamicAmount) : img.payload;
+};
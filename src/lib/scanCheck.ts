@@ -0,0 +1,67 @@
+import jsQR from 'jsqr';
+import { MergedCard, ScanCheck } from '../types';
+import { CardJob, MergeSettings } from './merge';
+
+// Smallest module that phone cameras read reliably at arm's length
+export const MIN_MODULE_MM = 0.3;
+
+// Extra room around the slot so a symbol whose quiet zone touches the area edge is still located
+const SEARCH_MARGIN = 0.1;
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Decodes every filled slot of the card just drawn on `ctx` and compares it with the payload it was made from
+export const verifyCard = (ctx: Context2D, width: number, height: number, job: CardJob, settings: MergeSettings): ScanCheck[] =>
+  job.slots.map((slot, index) => {
+    const area = settings.areas[index];
+    const marginX = (area.width / 100) * width * SEARCH_MARGIN;
+    const marginY = (area.height / 100) * height * SEARCH_MARGIN;
+    const left = Math.max(0, Math.floor((area.x / 100) * width - marginX));
+    const top = Math.max(0, Math.floor((area.y / 100) * height - marginY));
+    const right = Math.min(width, Math.ceil(((area.x + area.width) / 100) * width + marginX));
+    const bottom = Math.min(height, Math.ceil(((area.y + area.height) / 100) * height + marginY));
+    if (right <= left || bottom <= top) return { status: 'unreadable', modulePx: null };
+
+    const imageData = ctx.getImageData(left, top, right - left, bottom - top);
+    // Transparent pixels would read as black; flatten onto white like a print would
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = data[i + 3] / 255;
+      if (alpha < 1) {
+        data[i] = data[i] * alpha + 255 * (1 - alpha);
+        data[i + 1] = data[i + 1] * alpha + 255 * (1 - alpha);
+        data[i + 2] = data[i + 2] * alpha + 255 * (1 - alpha);
+        data[i + 3] = 255;
+      }
+    }
+
+    const result = jsQR(data, imageData.width, imageData.height);
+    if (!result) return { status: 'unreadable', modulePx: null };
+
+    const dimension = 17 + 4 * result.version;
+    const { topLeftCorner: tl, topRightCorner: tr, bottomLeftCorner: bl } = result.location;
+    const modulePx = (distance(tl, tr) + distance(tl, bl)) / 2 / dimension;
+
+    if (!slot.payload) return { status: 'unverified', modulePx };
+    return { status: result.data === slot.payload ? 'ok' : 'mismatch', modulePx };
+  });
+
+export interface ScanIssue {
+  slot: number;
+  message: string;
+}
+
+// Problems of a card printed `printWidthMm` wide; module size only matters once the symbol reads at all
+export const getScanIssues = (card: MergedCard, printWidthMm: number): ScanIssue[] => {
+  const mmPerPx = printWidthMm / card.width;
+  return card.checks.flatMap((check, slot): ScanIssue[] => {
+    if (check.status === 'unreadable') return [{ slot, message: 'QR tidak terbaca' }];
+    if (check.status === 'mismatch') return [{ slot, message: 'Isi QR berbeda dengan sumber' }];
+    if (check.modulePx !== null && check.modulePx * mmPerPx < MIN_MODULE_MM) {
+      return [{ slot, message: `Modul ${(check.modulePx * mmPerPx).toFixed(2)} mm, minimal ${MIN_MODULE_MM} mm` }];
+    }
+    return [];
+  });
+};
@@ -0,0 +1,106 @@
+import { AreaConfig } from '../components/AreaSelector';
+import { blobToDataUrl, dataUrlToBlob } from './assetStore';
+import { ANCHORS, FIT_MODES, ROTATIONS } from './placement';
+import { FrameTemplate, normalizeTemplate } from './templates';
+
+// A single JSON file that carries everything needed to recreate a template elsewhere
+export const PACKAGE_FORMAT = 'qris-merger-template';
+export const PACKAGE_SCHEMA_VERSION = 1;
+
+export interface TemplatePackage {
+  format: typeof PACKAGE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  // Everything from FrameTemplate except its local id and frame URL
+  template: Omit<FrameTemplate, 'id' | 'frameImage'>;
+  frame: string; // data URL
+}
+
+export interface ImportedTemplate {
+  template: FrameTemplate; // frameImage is a temporary object URL for previewing
+  frameBlob: Blob;
+  exportedAt: string | null;
+}
+
+const isAreaConfig = (value: unknown): value is AreaConfig => {
+  const area = value as AreaConfig | null;
+  return !!area &&
+    typeof area.x === 'number' &&
+    typeof area.y === 'number' &&
+    typeof area.width === 'number' &&
+    typeof area.height === 'number';
+};
+
+export const isTemplatePackage = (data: unknown): boolean =>
+  !!data && typeof data === 'object' && (data as { format?: unknown }).format === PACKAGE_FORMAT;
+
+export const createTemplatePackage = async (template: FrameTemplate): Promise<string> => {
+  const frameBlob = await (await fetch(template.frameImage)).blob();
+  const pkg: TemplatePackage = {
+    format: PACKAGE_FORMAT,
+    schemaVersion: PACKAGE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    template: {
+      name: template.name,
+      areas: template.areas,
+      fillMode: template.fillMode,
+      textFields: template.textFields,
+      placement: template.placement,
+      print: template.print,
+    },
+    frame: await blobToDataUrl(frameBlob),
+  };
+  return JSON.stringify(pkg, null, 2);
+};
+
+export const packageFileName = (template: FrameTemplate) => {
+  const slug = template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'template'}.qris-template.json`;
+};
+
+export const readTemplatePackage = async (data: unknown): Promise<ImportedTemplate> => {
+  if (!isTemplatePackage(data)) {
+    throw new Error('File ini bukan paket template QRIS Merger.');
+  }
+  const pkg = data as Partial<TemplatePackage>;
+  if (typeof pkg.schemaVersion !== 'number' || pkg.schemaVersion < 1) {
+    throw new Error('Versi skema paket tidak dikenali.');
+  }
+  if (pkg.schemaVersion > PACKAGE_SCHEMA_VERSION) {
+    throw new Error(`Paket dibuat dengan versi aplikasi yang lebih baru (skema ${pkg.schemaVersion}). Perbarui aplikasi terlebih dahulu.`);
+  }
+  if (typeof pkg.frame !== 'string' || !pkg.frame.startsWith('data:image/')) {
+    throw new Error('Paket tidak berisi gambar frame.');
+  }
+
+  const raw = pkg.template;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Paket tidak berisi data template.');
+  }
+  if (!Array.isArray(raw.areas) || raw.areas.length === 0 || !raw.areas.every(isAreaConfig)) {
+    throw new Error('Area QRIS pada paket tidak valid.');
+  }
+  if (raw.textFields !== undefined && (!Array.isArray(raw.textFields) || !raw.textFields.every(f => isAreaConfig(f?.area)))) {
+    throw new Error('Area teks pada paket tidak valid.');
+  }
+
+  const placement = raw.placement;
+  if (placement !== undefined && (
+    !FIT_MODES.some(mode => mode.value === placement?.fit) ||
+    !ANCHORS.includes(placement?.anchor) ||
+    !ROTATIONS.includes(placement?.rotation) ||
+    typeof placement?.padding !== 'number'
+  )) {
+    throw new Error('Pengaturan penempatan QR pada paket tidak valid.');
+  }
+
+  const frameBlob = await dataUrlToBlob(pkg.frame);
+  // A fresh id so the import is added next to, never over, an existing template
+  const template = normalizeTemplate({ ...raw, id: undefined, frameImage: undefined }, 'Template Impor');
+
+  return {
+    template: { ...template, frameImage: URL.createObjectURL(frameBlob) },
+    frameBlob,
+    exportedAt: typeof pkg.exportedAt === 'string' ? pkg.exportedAt : null,
+  };
+};
@@ -0,0 +1,235 @@
+import { AreaConfig } from '../components/AreaSelector';
+import { TextField } from './textFields';
+import { Quad } from './perspective';
+import { DEFAULT_PLACEMENT, Placement } from './placement';
+import { CardSize, DEFAULT_PAGE_SETUP, DEFAULT_PRINT_MARKS, PageSetup, PrintMarks, pageSetupForCount } from './pageSetup';
+import { dataUrlToBlob, deleteAsset, getAsset, putAsset, setLocalItem } from './assetStore';
+
+export interface QrArea extends AreaConfig {
+  id: string;
+  name: string;
+  // Four free corners in percent for tilted mockups; x/y/width/height then hold its bounding box
+  quad?: Quad;
+}
+
+// sequential: each slot takes the next upload; repeat: every slot shows the same upload
+export type FillMode = 'sequential' | 'repeat';
+
+export interface PrintPreferences {
+  page: PageSetup;
+  // Print every card at exactly this size instead of scaling it to the grid cell
+  cardSize: CardSize | null;
+  marks: PrintMarks;
+}
+
+export interface FrameTemplate {
+  id: string;
+  name: string;
+  // Object URL of the frame Blob kept in IndexedDB; empty until a frame has been uploaded
+  frameImage: string;
+  areas: QrArea[];
+  fillMode: FillMode;
+  textFields: TextField[];
+  placement: Placement;
+  print: PrintPreferences;
+}
+
+export interface TemplateLibrary {
+  templates: FrameTemplate[];
+  activeId: string | null;
+}
+
+// Shape found in storage, including single-settings entries written before the library existed
+type StoredTemplate = Omit<Partial<FrameTemplate>, 'print'> & {
+  areaConfig?: AreaConfig;
+  // Before the page setup panel only a per-page count was kept
+  print?: Partial<PrintPreferences> & { imagesPerPage?: number };
+};
+
+export const LIBRARY_KEY = 'qris-merger-templates';
+export const LEGACY_SETTINGS_KEY = 'qris-merger-settings';
+
+// Starting point for a new slot when placeholder detection finds nothing
+export const DEFAULT_AREA_CONFIG: AreaConfig = {
+  x: 25,
+  y: 25,
+  width: 50,
+  height: 50,
+};
+
+export const DEFAULT_PRINT_PREFERENCES: PrintPreferences = {
+  page: DEFAULT_PAGE_SETUP,
+  cardSize: null,
+  marks: DEFAULT_PRINT_MARKS,
+};
+
+const createId = () => Math.random().toString(36).substr(2, 9);
+
+export const createQrArea = (name: string, area: AreaConfig = DEFAULT_AREA_CONFIG): QrArea => ({
+  id: createId(),
+  name,
+  x: area.x,
+  y: area.y,
+  width: area.width,
+  height: area.height,
+});
+
+export const createTemplate = (name: string): FrameTemplate => ({
+  id: createId(),
+  name,
+  frameImage: '',
+  areas: [createQrArea('QRIS 1')],
+  fillMode: 'sequential',
+  textFields: [],
+  placement: DEFAULT_PLACEMENT,
+  print: DEFAULT_PRINT_PREFERENCES,
+});
+
+export const duplicateTemplate = (template: FrameTemplate): FrameTemplate => ({
+  ...template,
+  id: createId(),
+  name: `${template.name} (salinan)`,
+  areas: template.areas.map(area => ({ ...area })),
+  textFields: template.textFields.map(field => ({ ...field, area: { ...field.area } })),
+});
+
+const normalizePrint = (raw: StoredTemplate['print']): PrintPreferences => {
+  if (raw?.page) {
+    return {
+      ...DEFAULT_PRINT_PREFERENCES,
+      ...raw,
+      page: { ...DEFAULT_PAGE_SETUP, ...raw.page, margins: { ...DEFAULT_PAGE_SETUP.margins, ...raw.page.margins } },
+      marks: { ...DEFAULT_PRINT_MARKS, ...raw.marks },
+    };
+  }
+  return {
+    ...DEFAULT_PRINT_PREFERENCES,
+    page: raw?.imagesPerPage ? pageSetupForCount(raw.imagesPerPage) : DEFAULT_PAGE_SETUP,
+  };
+};
+
+export const normalizeTemplate = (raw: StoredTemplate, fallbackName = 'Template'): FrameTemplate => {
+  const areas = raw.areas?.length
+    ? raw.areas
+    : raw.areaConfig
+      ? [createQrArea('QRIS 1', raw.areaConfig)]
+      : [];
+
+  return {
+    id: raw.id ?? createId(),
+    name: raw.name || fallbackName,
+    frameImage: raw.frameImage ?? '',
+    areas,
+    fillMode: raw.fillMode ?? 'sequential',
+    textFields: raw.textFields ?? [],
+    placement: { ...DEFAULT_PLACEMENT, ...raw.placement },
+    print: normalizePrint(raw.print),
+  };
+};
+
+export const isTemplateReady = (template: FrameTemplate | null | undefined): template is FrameTemplate =>
+  !!template && !!template.frameImage && template.areas.length > 0;
+
+export const getActiveTemplate = (library: TemplateLibrary): FrameTemplate | null =>
+  library.templates.find(t => t.id === library.activeId) ?? null;
+
+const readJson = <T>(key: string): T | null => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved) as T;
+  } catch {
+    return null;
+  }
+};
+
+const frameKey = (templateId: string) => `frame:${templateId}`;
+
+// Resolves the frame for a stored template, moving inline data URLs written by older versions into IndexedDB
+const restoreFrame = async (raw: StoredTemplate, template: FrameTemplate): Promise<{ url: string; migrated: boolean }> => {
+  if (raw.frameImage?.startsWith('data:')) {
+    try {
+      const url = await storeTemplateFrame(template.id, await dataUrlToBlob(raw.frameImage));
+      return { url, migrated: true };
+    } catch (error) {
+      // Keep using the inline copy; the old entry stays untouched until the next successful save
+      console.error('Error migrating frame to IndexedDB:', error);
+      return { url: raw.frameImage, migrated: false };
+    }
+  }
+  try {
+    const blob = await getAsset(frameKey(template.id));
+    return { url: blob ? URL.createObjectURL(blob) : '', migrated: false };
+  } catch (error) {
+    // Only this template loses its frame; the rest of the library still loads
+    console.error('Error loading frame:', error);
+    return { url: '', migrated: false };
+  }
+};
+
+export const loadLibrary = async (): Promise<TemplateLibrary> => {
+  const stored = readJson<{ templates?: StoredTemplate[]; activeId?: string | null }>(LIBRARY_KEY);
+  // First run after the library was introduced: adopt the old single setting
+  const legacy = stored?.templates ? null : readJson<StoredTemplate>(LEGACY_SETTINGS_KEY);
+  const rawTemplates = stored?.templates ?? (legacy?.frameImage ? [legacy] : []);
+
+  let migrated = !!legacy?.frameImage;
+  const templates: FrameTemplate[] = [];
+  for (const [i, raw] of rawTemplates.entries()) {
+    const template = normalizeTemplate(raw, `Template ${i + 1}`);
+    const frame = await restoreFrame(raw, template);
+    migrated = migrated || frame.migrated;
+    templates.push({ ...template, frameImage: frame.url });
+  }
+
+  const activeId = templates.some(t => t.id === stored?.activeId) ? stored!.activeId! : templates[0]?.id ?? null;
+  const library = { templates, activeId };
+
+  if (migrated && templates.every(t => !t.frameImage.startsWith('data:'))) {
+    saveLibrary(library);
+  }
+  return library;
+};
+
+// Writes template metadata only; frames are stored separately through storeTemplateFrame.
+// An inline frame whose move to IndexedDB failed is the only copy, so it stays in the metadata.
+export const saveLibrary = (library: TemplateLibrary) => {
+  const templates = library.templates.map(template => ({
+    ...template,
+    frameImage: template.frameImage.startsWith('data:') ? template.frameImage : undefined,
+  }));
+  setLocalItem(LIBRARY_KEY, JSON.stringify({ ...library, templates }));
+  if (templates.every(template => !template.frameImage)) {
+    localStorage.removeItem(LEGACY_SETTINGS_KEY);
+  }
+};
+
+// Persists the frame Blob and returns an object URL for displaying it
+export const storeTemplateFrame = async (templateId: string, blob: Blob): Promise<string> => {
+  await putAsset(frameKey(templateId), blob);
+  return URL.createObjectURL(blob);
+};
+
+export const copyTemplateFrame = async (fromId: string, toId: string): Promise<string> => {
+  const blob = await getAsset(frameKey(fromId));
+  return blob ? storeTemplateFrame(toId, blob) : '';
+};
+
+export const deleteTemplateFrame = async (template: FrameTemplate) => {
+  if (template.frameImage.startsWith('blob:')) {
+    URL.revokeObjectURL(template.frameImage);
+  }
+  await deleteAsset(frameKey(template.id));
+};
+
+// Splits the uploads into the images each card receives, one per slot
+export const groupIntoCards = <T>(images: T[], slotCount: number, fillMode: FillMode): T[][] => {
+  if (fillMode === 'repeat' || slotCount <= 1) {
+    return images.map(img => Array.from({ length: Math.max(1, slotCount) }, () => img));
+  }
+  const groups: T[][] = [];
+  for (let i = 0; i < images.length; i += slotCount) {
+    groups.push(images.slice(i, i + slotCount));
+  }
+  return groups;
+};
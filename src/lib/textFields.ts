@@ -0,0 +1,119 @@
+import { AreaConfig } from '../components/AreaSelector';
+import { QRISImage } from '../types';
+
+export type TextSource = 'merchantName' | 'merchantCity' | 'nmid' | 'label' | 'custom';
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextField {
+  id: string;
+  name: string;
+  area: AreaConfig;
+  source: TextSource;
+  fontFamily: string;
+  fontSize: number; // px at the frame's native resolution
+  bold: boolean;
+  color: string;
+  align: TextAlign;
+  autoShrink: boolean;
+  // QR slot whose upload supplies the value on multi-slot templates; first slot when unset
+  slotId?: string;
+}
+
+export const TEXT_SOURCES: { value: TextSource; label: string }[] = [
+  { value: 'merchantName', label: 'Nama merchant' },
+  { value: 'merchantCity', label: 'Kota' },
+  { value: 'nmid', label: 'NMID' },
+  { value: 'label', label: 'Label gambar' },
+  { value: 'custom', label: 'Isian manual' },
+];
+
+export const FONT_FAMILIES = [
+  'Arial',
+  'Helvetica',
+  'Verdana',
+  'Trebuchet MS',
+  'Georgia',
+  'Times New Roman',
+  'Courier New',
+  'Impact',
+];
+
+// A full-width strip along the top edge
+export const DEFAULT_TEXT_AREA: AreaConfig = { x: 10, y: 2, width: 80, height: 6 };
+
+export const createTextField = (name: string): TextField => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  area: DEFAULT_TEXT_AREA,
+  source: 'merchantName',
+  fontFamily: 'Arial',
+  fontSize: 48,
+  bold: true,
+  color: '#000000',
+  align: 'center',
+  autoShrink: true,
+});
+
+// Per-image values typed by the user win over anything derived from the payload
+export const resolveTextValue = (field: TextField, image: QRISImage): string => {
+  const override = image.fieldValues?.[field.id];
+  if (override !== undefined && override !== '') return override;
+
+  switch (field.source) {
+    case 'merchantName':
+      return image.info?.merchantName ?? '';
+    case 'merchantCity':
+      return image.info?.merchantCity ?? '';
+    case 'nmid':
+      return image.info?.nmid ?? '';
+    case 'label':
+      return image.label ?? '';
+    default:
+      return '';
+  }
+};
+
+const MIN_FONT_SIZE = 6;
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const drawTextField = (
+  ctx: Context2D,
+  field: TextField,
+  text: string,
+  frameWidth: number,
+  frameHeight: number
+) => {
+  if (!text) return;
+
+  const x = (field.area.x / 100) * frameWidth;
+  const y = (field.area.y / 100) * frameHeight;
+  const width = (field.area.width / 100) * frameWidth;
+  const height = (field.area.height / 100) * frameHeight;
+
+  const fontFor = (size: number) => `${field.bold ? 'bold ' : ''}${size}px "${field.fontFamily}", sans-serif`;
+
+  let size = field.fontSize;
+  if (field.autoShrink) {
+    size = Math.min(size, height);
+    ctx.font = fontFor(size);
+    while (size > MIN_FONT_SIZE && ctx.measureText(text).width > width) {
+      size = Math.max(MIN_FONT_SIZE, Math.floor(size * 0.95));
+      ctx.font = fontFor(size);
+    }
+  }
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+
+  ctx.font = fontFor(size);
+  ctx.fillStyle = field.color;
+  ctx.textAlign = field.align;
+  ctx.textBaseline = 'middle';
+  const textX = field.align === 'left' ? x : field.align === 'right' ? x + width : x + width / 2;
+  ctx.fillText(text, textX, y + height / 2);
+
+  ctx.restore();
+};
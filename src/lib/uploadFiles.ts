@@ -0,0 +1,102 @@
+// Turns whatever the user drops, pastes or picks into image files ready for decoding
+
+// PDF pages are rendered so their long side is about this many pixels, enough for the QR to decode cleanly
+const PDF_RENDER_SIZE = 2400;
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+const isImage = (file: File) => file.type.startsWith('image/');
+
+const readEntry = (entry: FileSystemEntry): Promise<File[]> => {
+  // Hidden files such as .DS_Store come along with dropped folders
+  if (entry.name.startsWith('.')) return Promise.resolve([]);
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+  }
+  if (!entry.isDirectory) return Promise.resolve([]);
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns the directory in batches until it hands back an empty one
+  const readAll = async (collected: FileSystemEntry[] = []): Promise<FileSystemEntry[]> => {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    return batch.length === 0 ? collected : readAll([...collected, ...batch]);
+  };
+  // Keep numbered screenshots in their natural order
+  return readAll()
+    .then(entries => entries.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })))
+    .then(entries => Promise.all(entries.map(readEntry)))
+    .then(nested => nested.flat());
+};
+
+// Files of a drop, with dropped folders walked recursively
+export const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be taken synchronously, before the drop event finishes
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Array.from(dataTransfer.files);
+  }
+  const nested = await Promise.all(entries.map(entry => readEntry(entry!)));
+  return nested.flat();
+};
+
+// One PNG per page, named after the PDF
+const rasterizePdf = async (file: File): Promise<File[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const baseName = file.name.replace(/\.pdf$/i, '');
+  const pages: File[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: PDF_RENDER_SIZE / Math.max(base.width, base.height) });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      page.cleanup();
+
+      const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Gagal merender halaman PDF'))), 'image/png');
+      });
+      const suffix = pdf.numPages > 1 ? ` (hal ${pageNumber})` : '';
+      pages.push(new File([blob], `${baseName}${suffix}.png`, { type: 'image/png' }));
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+export interface PreparedUpload {
+  images: File[];
+  // Human-readable reason per file that was not added
+  rejected: string[];
+}
+
+export const prepareUploadFiles = async (files: File[]): Promise<PreparedUpload> => {
+  const images: File[] = [];
+  const rejected: string[] = [];
+
+  for (const file of files) {
+    if (isImage(file)) {
+      images.push(file);
+    } else if (isPdf(file)) {
+      try {
+        images.push(...await rasterizePdf(file));
+      } catch (error) {
+        console.error('Error reading PDF:', error);
+        rejected.push(`${file.name}: PDF tidak dapat dibaca`);
+      }
+    } else {
+      rejected.push(`${file.name}: bukan gambar atau PDF`);
+    }
+  }
+  return { images, rejected };
+};
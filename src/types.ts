@@ -0,0 +1,63 @@
+import { DynamicAmount, QrisInfo } from './lib/qris';
+import { EcLevel } from './lib/qrRender';
+import { Rotation } from './lib/placement';
+import { AreaConfig } from './components/AreaSelector';
+
+export type QrisStatus = 'decoding' | 'valid' | 'no-qr' | 'invalid' | 'bad-crc';
+
+export interface QRISImage {
+  id: string;
+  file: File;
+  // Object URL of the untouched upload; `preview` is the (possibly cropped) image that gets merged
+  source: string;
+  preview: string;
+  // Crop of `source` in percent, from finder-pattern detection or manual adjustment
+  crop?: AreaConfig;
+  status: QrisStatus;
+  payload?: string;
+  info?: QrisInfo;
+  ecLevel?: EcLevel;
+  error?: string;
+  label?: string;
+  // Manual text per template text field id, overriding the value derived from the payload
+  fieldValues?: Record<string, string>;
+  // Set when a static QRIS is converted to a dynamic one with a preset amount
+  dynamicAmount?: DynamicAmount;
+  // How many times the upload is placed; 1 when unset
+  copies?: number;
+}
+
+export interface VectorQr {
+  payload: string;
+  ecLevel: EcLevel;
+  // Position and side length (quiet zone included) in card pixels
+  x: number;
+  y: number;
+  size: number;
+  // Clockwise quarter turns of the symbol, from the template placement
+  rotation: Rotation;
+}
+
+// 'unverified' when the source had no decodable payload to compare against
+export type ScanStatus = 'ok' | 'mismatch' | 'unreadable' | 'unverified';
+
+// Result of decoding one slot of a rendered card again
+export interface ScanCheck {
+  status: ScanStatus;
+  // Side of one QR module in card pixels, when the symbol was found
+  modulePx: number | null;
+}
+
+export interface MergedCard {
+  id: string;
+  // Uploads placed on this card, in slot order
+  imageIds: string[];
+  // Rendered PNG, and an object URL of it for previews
+  blob: Blob;
+  url: string;
+  width: number;
+  height: number;
+  vectorQrs: VectorQr[];
+  // One per filled slot, in slot order
+  checks: ScanCheck[];
+}